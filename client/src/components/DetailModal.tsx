@@ -4,15 +4,42 @@ import {
   describeSpeed, 
   describeEvidence, 
   describeGrade,
+  describeRuleValue,
+  describeRuleThreshold,
   translateMetricName 
 } from '../utils/natural-language'
 
+interface RuleOutcome {
+  ruleId: string
+  description: string
+  source: 'rule' | 'ai'
+  pointsPossible: number
+  pointsAwarded: number
+  measuredValue?: unknown
+  threshold?: Record<string, any>
+  measured: boolean
+}
+
 interface DetailModalProps {
   isOpen: boolean
   onClose: () => void
   check: {
     id: string
     score: number
+    scoreSpread?: {
+      samples: number[]
+      median: number
+      variance: number
+      disagreement: boolean
+    }
+    evidenceVerification?: {
+      checked: number
+      verified: number
+      snapped: number
+      unverified: number
+      originalScore?: number
+    }
+    ruleOutcomes?: RuleOutcome[]
     metrics?: any
     evidence?: any
     insights?: string[]
@@ -118,9 +145,56 @@ export default function DetailModal({ isOpen, onClose, check }: DetailModalProps
                         style={{ width: `${check.score * 10}%` }}
                       />
                     </div>
+                    {check.scoreSpread && (
+                      <div className={`mt-3 text-sm ${check.scoreSpread.disagreement ? 'text-amber-700' : 'text-gray-600'}`}>
+                        {check.scoreSpread.disagreement && '⚠️ '}
+                        AI 평가 {check.scoreSpread.samples.length}회: {check.scoreSpread.samples.join(', ')}점
+                        (중앙값 {check.scoreSpread.median}, 분산 {check.scoreSpread.variance})
+                        {check.scoreSpread.disagreement && ' · 평가 간 편차가 커 결과가 불안정합니다'}
+                      </div>
+                    )}
+                    {check.evidenceVerification && check.evidenceVerification.checked > 0 && (
+                      <div className={`mt-2 text-sm ${check.evidenceVerification.unverified > 0 ? 'text-amber-700' : 'text-gray-600'}`}>
+                        {check.evidenceVerification.unverified > 0 && '⚠️ '}
+                        근거 검증 {check.evidenceVerification.checked}건: 일치 {check.evidenceVerification.verified},
+                        위치 보정 {check.evidenceVerification.snapped}, 미확인 {check.evidenceVerification.unverified}
+                        {check.evidenceVerification.originalScore !== undefined &&
+                          ` · 미확인 근거로 AI 점수 ${check.evidenceVerification.originalScore}점에서 감점`}
+                      </div>
+                    )}
                   </div>
                 </div>
 
+                {/* 규칙별 배점 내역 */}
+                {check.ruleOutcomes && check.ruleOutcomes.length > 0 && (
+                  <div className="mb-6">
+                    <h3 className="text-lg font-semibold mb-3 flex items-center">
+                      <span className="mr-2">🧮</span> 배점 내역
+                    </h3>
+                    <div className="border rounded-lg divide-y">
+                      {check.ruleOutcomes.map((outcome) => {
+                        const lost = outcome.pointsAwarded < outcome.pointsPossible
+                        return (
+                          <div key={outcome.ruleId} className="flex items-center justify-between p-3">
+                            <div className="flex-1 pr-4">
+                              <div className="text-sm font-medium text-gray-900">{outcome.description}</div>
+                              <div className="text-xs text-gray-500">
+                                {describeRuleValue(outcome)}
+                                {outcome.threshold && describeRuleThreshold(outcome.threshold) && (
+                                  <> · 기준 {describeRuleThreshold(outcome.threshold)}</>
+                                )}
+                              </div>
+                            </div>
+                            <div className={`text-sm font-semibold ${lost ? 'text-red-600' : 'text-green-600'}`}>
+                              {Math.round(outcome.pointsAwarded * 10) / 10}/{outcome.pointsPossible}
+                            </div>
+                          </div>
+                        )
+                      })}
+                    </div>
+                  </div>
+                )}
+
                 {/* Metrics - 속도 카테고리 전용 */}
                 {check.id === 'speed' && check.metrics && Object.keys(check.metrics).length > 0 && (
                   <div className="mb-6">
@@ -214,7 +288,7 @@ export default function DetailModal({ isOpen, onClose, check }: DetailModalProps
                   </summary>
                   <div className="mt-3 p-4 bg-gray-100 rounded-lg">
                     <pre className="text-xs overflow-x-auto">
-                      {JSON.stringify({ metrics: check.metrics, evidence: check.evidence }, null, 2)}
+                      {JSON.stringify({ metrics: check.metrics, evidence: check.evidence, ruleOutcomes: check.ruleOutcomes }, null, 2)}
                     </pre>
                   </div>
                 </details>
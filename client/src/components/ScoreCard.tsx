@@ -11,6 +11,13 @@ interface ScoreCardProps {
   check: {
     id: string
     score: number
+    confidence?: number
+    confidenceLevel?: 'high' | 'medium' | 'low'
+    confidenceFactors?: {
+      evidence: number
+      llm?: number
+      ruleCoverage: number
+    }
     metrics?: any
     evidence?: any
     insights?: string[]
@@ -66,8 +73,11 @@ export default function ScoreCard({ check }: ScoreCardProps) {
     return 'bg-critical'
   }
 
+  // 신뢰도가 낮은 점수는 추정치로 구분 표시
+  const lowConfidence = check.confidenceLevel === 'low'
+
   return (
-    <div className="card h-full">
+    <div className={`card h-full ${lowConfidence ? 'border-2 border-dashed border-gray-300 opacity-80' : ''}`}>
       <div className="p-6">
         {/* Header */}
         <div className="flex items-start justify-between mb-4">
@@ -77,6 +87,11 @@ export default function ScoreCard({ check }: ScoreCardProps) {
               <h3 className="font-semibold text-gray-900">
                 {getCategoryName(check.id)}
               </h3>
+              {lowConfidence && (
+                <span className="inline-block mt-1 px-2 py-0.5 text-xs text-gray-600 bg-gray-100 rounded-full">
+                  신뢰도 낮음 · 추정치
+                </span>
+              )}
             </div>
           </div>
           <div className={`px-3 py-1 rounded-full border-2 font-bold ${getScoreColor(check.score)}`}>
@@ -94,6 +109,18 @@ export default function ScoreCard({ check }: ScoreCardProps) {
           </div>
         </div>
 
+        {/* 점수 신뢰도 */}
+        {check.confidence !== undefined && (
+          <div
+            className="mb-4 text-xs text-gray-500"
+            title={check.confidenceFactors
+              ? `측정 ${Math.round(check.confidenceFactors.ruleCoverage * 100)}% · 근거 ${Math.round(check.confidenceFactors.evidence * 100)}%${check.confidenceFactors.llm !== undefined ? ` · AI 확신도 ${Math.round(check.confidenceFactors.llm * 100)}%` : ''}`
+              : undefined}
+          >
+            신뢰도 {Math.round(check.confidence * 100)}%
+          </div>
+        )}
+
         {/* Performance Metrics - Speed 카테고리 전용 */}
         {check.id === 'speed' && check.metrics && Object.keys(check.metrics).length > 0 && (
           <div className="mb-4">
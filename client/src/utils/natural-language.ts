@@ -120,6 +120,29 @@ export function describePopupCount(count: number): string {
   return `팝업 ${count}개 (너무 많음 ❌)`;
 }
 
+// 규칙 측정값 설명 (rules.yaml 규칙 결과)
+export function describeRuleValue(outcome: { source: 'rule' | 'ai'; measured: boolean; measuredValue?: unknown }): string {
+  if (outcome.source === 'ai') return 'AI 평가';
+  if (!outcome.measured) return '측정 불가';
+
+  const value = outcome.measuredValue;
+  if (typeof value === 'boolean') return value ? '있음' : '없음';
+  if (typeof value === 'number') return String(Math.round(value * 1000) / 1000);
+  if (Array.isArray(value)) return `${value.length}개 항목`;
+  return String(value);
+}
+
+// 규칙 판정 기준 설명
+export function describeRuleThreshold(threshold?: Record<string, any>): string {
+  if (!threshold || Object.keys(threshold).length === 0) return '';
+  if (threshold.thresholds) return `구간 ${threshold.thresholds.join(' / ')}`;
+  if (threshold.min !== undefined && threshold.max !== undefined) return `${threshold.min}~${threshold.max}`;
+  if (threshold.min !== undefined) return `${threshold.min} 이상`;
+  if (threshold.max !== undefined) return `${threshold.max} 이하`;
+  if (threshold.equals !== undefined) return typeof threshold.equals === 'boolean' ? (threshold.equals ? '있어야 함' : '없어야 함') : `${threshold.equals}`;
+  return describeList([...(threshold.keywords || []), ...(threshold.anyOf || []), ...(threshold.patterns || [])], '키워드');
+}
+
 // 점수를 등급으로 변환
 export function describeGrade(score: number): string {
   if (score >= 9) return 'S (최우수)';
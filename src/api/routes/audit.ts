@@ -4,6 +4,22 @@ import { getQueue } from '../../utils/queue.js';
 import { getDatabase } from '../../utils/database.js';
 import { getStorage } from '../../utils/storage.js';
 import { AuditRequest, AuditRun } from '../../types/index.js';
+import { getScoringProfile, listScoringProfiles, ScoringProfile } from '../../lib/scoring-profiles.js';
+import { createScorerV2 } from '../../lib/scorer-v2.js';
+import { CATEGORY_IDS, createRulesEngine, VERTICALS } from '../../lib/rules-engine.js';
+import { NotFoundError, ValidationError } from '../../lib/errors.js';
+import { MAX_LLM_SAMPLES } from '../../lib/llm-consensus.js';
+import { createLLMProvider, LLM_PROVIDERS } from '../../lib/llm-providers.js';
+import { getApiKeyId } from '../../lib/llm-usage.js';
+import { getPromptTemplate, PromptTemplate } from '../../lib/prompt-templates.js';
+import { VisionLLMGrader } from '../../lib/vision-llm.js';
+
+// 카테고리별 가중치 배수 (예: { mobile: 2, seoAnalytics: 0.5 })
+const WeightsSchema = {
+  type: 'object',
+  properties: Object.fromEntries(CATEGORY_IDS.map(id => [id, { type: 'number', minimum: 0, maximum: 10 }])),
+  additionalProperties: false
+};
 
 // 요청 스키마 (JSON Schema)
 const AuditRequestSchema = {
@@ -14,7 +30,12 @@ const AuditRequestSchema = {
       type: 'string', 
       format: 'uri',
       pattern: '^https?://'
-    }
+    },
+    profile: { type: 'string', minLength: 1 },
+    vertical: { type: 'string', enum: [...VERTICALS] },
+    weights: WeightsSchema,
+    samples: { type: 'integer', minimum: 1, maximum: MAX_LLM_SAMPLES },
+    llmProvider: { type: 'string', enum: [...LLM_PROVIDERS] }
   }
 };
 
@@ -26,6 +47,8 @@ const AuditRunSchema = {
     url: { type: 'string', format: 'uri' },
     status: { type: 'string', enum: ['pending', 'processing', 'completed', 'failed'] },
     startedAt: { type: 'string', format: 'date-time' },
+    scoringProfile: { type: 'string' },
+    weightMultipliers: { type: 'object', additionalProperties: { type: 'number' } },
     message: { type: 'string' }
   }
 };
@@ -63,6 +86,49 @@ export async function auditRoutes(fastify: FastifyInstance) {
     try {
       // URL 유효성 검사
       const validatedUrl = new URL(url);
+
+      // 채점 프로파일 확인 - 큐에 넣기 전에 name@version으로 고정
+      // profile/vertical 모두 없으면 워커가 HTML로 업종을 감지해 결정
+      const profileRef = request.body.profile || request.body.vertical;
+      let profile: ScoringProfile | undefined;
+      if (profileRef) {
+        try {
+          profile = getScoringProfile(profileRef);
+        } catch (error) {
+          if (error instanceof NotFoundError) {
+            return reply.status(400).send({
+              error: true,
+              message: `Unknown scoring profile: ${profileRef}`
+            });
+          }
+          throw error;
+        }
+      }
+
+      // 가중치 배수 확인 - 모든 카테고리를 0으로 만들 수는 없음
+      const { weights } = request.body;
+      if (weights) {
+        try {
+          createRulesEngine((profile || getScoringProfile()).config).getEffectiveWeights(weights);
+        } catch (error) {
+          if (error instanceof ValidationError) {
+            return reply.status(400).send({
+              error: true,
+              message: error.message
+            });
+          }
+          throw error;
+        }
+      }
+
+      // LLM 프로바이더 확인 - 자격 증명이 없는 프로바이더를 지정하면 mock으로 대체되지 않도록 거절
+      const { llmProvider } = request.body;
+      if (llmProvider && !createLLMProvider(llmProvider)) {
+        return reply.status(400).send({
+          error: true,
+          message: `LLM provider not configured: ${llmProvider}`
+        });
+      }
       
       // 동시 실행 제한 체크
       const activeJobs = await queue.getActiveCount();
@@ -81,7 +147,10 @@ export async function auditRoutes(fastify: FastifyInstance) {
         runId,
         url: validatedUrl.href,
         status: 'pending',
-        startedAt: new Date()
+        startedAt: new Date(),
+        scoringProfile: profile?.key,
+        weightMultipliers: weights,
+        apiKeyId: getApiKeyId(request.headers['x-api-key']) // 사용량/비용 집계용
       };
 
       // DB에 저장
@@ -90,7 +159,11 @@ export async function auditRoutes(fastify: FastifyInstance) {
       // 큐에 작업 추가
       await queue.add('audit', {
         runId,
-        url: validatedUrl.href
+        url: validatedUrl.href,
+        profile: profile?.key,
+        weights,
+        samples: request.body.samples,
+        llmProvider
       }, {
         attempts: 3,
         backoff: {
@@ -114,6 +187,8 @@ export async function auditRoutes(fastify: FastifyInstance) {
         url: validatedUrl.href,
         status: 'pending',
         startedAt: run.startedAt.toISOString(),
+        scoringProfile: profile?.key,
+        weightMultipliers: weights,
         message: 'Audit has been queued and will start processing shortly'
       });
 
@@ -177,6 +252,11 @@ export async function auditRoutes(fastify: FastifyInstance) {
         startedAt: result.startedAt instanceof Date ? result.startedAt.toISOString() : result.startedAt,
         elapsedMs: result.elapsedMs,
         totalScore: result.totalScore,
+        scoringProfile: result.scoringProfile,
+        promptTemplate: result.promptTemplate,
+        weightMultipliers: result.weightMultipliers,
+        appliedWeights: result.appliedWeights,
+        llmUsage: result.llmUsage,
         error: result.error,
         screenshots: result.screenshots
       };
@@ -463,6 +543,328 @@ export async function auditRoutes(fastify: FastifyInstance) {
     }
   });
 
+  /**
+   * GET /api/audit/:runId/inputs - 채점에 사용된 원본 측정값/LLM 출력 조회
+   */
+  fastify.get<{
+    Params: { runId: string }
+  }>('/:runId/inputs', {
+    schema: {
+      params: {
+        type: 'object',
+        required: ['runId'],
+        properties: {
+          runId: { type: 'string', format: 'uuid' }
+        }
+      },
+      response: {
+        404: ErrorSchema
+      }
+    }
+  }, async (request: FastifyRequest<{ Params: { runId: string } }>, reply: FastifyReply) => {
+    const { runId } = request.params;
+
+    try {
+      const run = await db.getRun(runId);
+      if (!run) {
+        return reply.status(404).send({
+          error: true,
+          message: 'Audit run not found'
+        });
+      }
+
+      // 스토리지 사본이 가장 상세 (CV 분석 원본 포함), 없으면 DB의 채점 입력 사용
+      const stored = await storage.get(`reports/${runId}/raw/inputs.json`);
+      if (stored) {
+        reply.header('Content-Type', 'application/json');
+        return reply.send(stored);
+      }
+
+      const inputs = await db.getScoringInputs(runId);
+      if (!inputs) {
+        return reply.status(404).send({
+          error: true,
+          message: 'No stored inputs for this run'
+        });
+      }
+
+      return reply.send({
+        runId,
+        url: run.url,
+        scoringProfile: run.scoringProfile,
+        ...inputs
+      });
+
+    } catch (error) {
+      fastify.log.error({ error, runId }, 'Failed to get audit inputs');
+      throw error;
+    }
+  });
+
+  /**
+   * GET /api/audit/:runId/inputs/page.html - 분석에 사용된 렌더링 HTML
+   */
+  fastify.get<{
+    Params: { runId: string }
+  }>('/:runId/inputs/page.html', {
+    schema: {
+      params: {
+        type: 'object',
+        required: ['runId'],
+        properties: {
+          runId: { type: 'string', format: 'uuid' }
+        }
+      },
+      response: {
+        404: ErrorSchema
+      }
+    }
+  }, async (request: FastifyRequest<{ Params: { runId: string } }>, reply: FastifyReply) => {
+    const { runId } = request.params;
+
+    try {
+      const html = await storage.get(`reports/${runId}/raw/page.html`);
+
+      if (!html) {
+        return reply.status(404).send({
+          error: true,
+          message: 'Captured HTML not found'
+        });
+      }
+
+      // 캡처한 페이지의 스크립트가 API 도메인에서 실행되지 않도록 text/plain으로 응답
+      reply.header('Content-Type', 'text/plain; charset=utf-8');
+      return reply.send(html);
+
+    } catch (error) {
+      fastify.log.error({ error, runId }, 'Failed to get captured HTML');
+      throw error;
+    }
+  });
+
+  /**
+   * GET /api/audit/:runId/prompt - 실행의 저장된 입력으로 렌더링한 LLM 프롬프트 미리보기
+   * template을 지정하면 다른 버전으로 렌더링 (기본은 실행에 기록된 템플릿)
+   */
+  fastify.get<{
+    Params: { runId: string };
+    Querystring: { template?: string };
+  }>('/:runId/prompt', {
+    schema: {
+      params: {
+        type: 'object',
+        required: ['runId'],
+        properties: {
+          runId: { type: 'string', format: 'uuid' }
+        }
+      },
+      querystring: {
+        type: 'object',
+        properties: {
+          template: { type: 'string', minLength: 1 }
+        }
+      },
+      response: {
+        404: ErrorSchema
+      }
+    }
+  }, async (request: FastifyRequest<{ Params: { runId: string }; Querystring: { template?: string } }>, reply: FastifyReply) => {
+    const { runId } = request.params;
+
+    try {
+      const run = await db.getRun(runId);
+      if (!run) {
+        return reply.status(404).send({
+          error: true,
+          message: 'Audit run not found'
+        });
+      }
+
+      const stored = await storage.get(`reports/${runId}/raw/inputs.json`);
+      if (!stored) {
+        return reply.status(404).send({
+          error: true,
+          message: 'No stored inputs for this run'
+        });
+      }
+
+      const inputs = JSON.parse(stored.toString('utf-8'));
+      const html = (await storage.get(`reports/${runId}/raw/page.html`))?.toString('utf-8') || '';
+
+      let template: PromptTemplate;
+      try {
+        template = getPromptTemplate(request.query.template || run.promptTemplate);
+      } catch (error) {
+        if (error instanceof NotFoundError) {
+          return reply.status(404).send({ error: true, message: error.message });
+        }
+        throw error;
+      }
+
+      // promptInput이 없는 이전 실행은 채점 프로파일에서 업종/키워드를 복원
+      let promptInput = inputs.promptInput;
+      if (!promptInput) {
+        const profile = listScoringProfiles().find(p => p.key === inputs.scoringProfile);
+        promptInput = {
+          url: run.url,
+          platform: inputs.platform,
+          vertical: profile?.config.profile.vertical,
+          keywords: profile?.config.keywords
+        };
+      }
+
+      const grader = new VisionLLMGrader(null, 1, template.key);
+      const rendered = grader.renderPrompt({
+        url: promptInput.url,
+        platform: promptInput.platform,
+        vertical: promptInput.vertical,
+        keywords: promptInput.keywords,
+        html,
+        screenshots: {
+          firstView: '',
+          actions: promptInput.actions,
+          images: promptInput.images?.map((image: { id: string; label: string }) => ({ ...image, image: '' }))
+        }
+      });
+
+      return reply.send({
+        runId,
+        recordedTemplate: run.promptTemplate,
+        ...rendered
+      });
+
+    } catch (error) {
+      fastify.log.error({ error, runId }, 'Failed to render audit prompt');
+      throw error;
+    }
+  });
+
+  /**
+   * GET /api/audit/profiles - 사용 가능한 채점 프로파일 목록
+   */
+  fastify.get('/profiles', async (_request: FastifyRequest, reply: FastifyReply) => {
+    const defaultProfile = getScoringProfile();
+
+    return reply.send({
+      default: defaultProfile.key,
+      profiles: listScoringProfiles().map(profile => {
+        const engine = createRulesEngine(profile.config);
+        return {
+          key: profile.key,
+          name: profile.name,
+          version: profile.version,
+          description: profile.description,
+          vertical: profile.config.profile.vertical,
+          weights: Object.fromEntries(engine.getCategoryIds().map(id => [id, engine.getWeight(id)]))
+        };
+      })
+    });
+  });
+
+  /**
+   * POST /api/audit/:runId/rescore - 저장된 측정값/LLM 출력으로 재채점 (크롤링 없음)
+   * 결과는 응답으로만 반환하고 저장된 실행은 변경하지 않음
+   */
+  fastify.post<{
+    Params: { runId: string };
+    Body: { profile?: string; weights?: Record<string, number> };
+  }>('/:runId/rescore', {
+    schema: {
+      params: {
+        type: 'object',
+        required: ['runId'],
+        properties: {
+          runId: { type: 'string', format: 'uuid' }
+        }
+      },
+      body: {
+        type: 'object',
+        properties: {
+          profile: { type: 'string', minLength: 1 },
+          weights: WeightsSchema
+        }
+      },
+      response: {
+        400: ErrorSchema,
+        404: ErrorSchema
+      }
+    }
+  }, async (request: FastifyRequest<{ Params: { runId: string }; Body: { profile?: string; weights?: Record<string, number> } }>, reply: FastifyReply) => {
+    const { runId } = request.params;
+    const profileRef = request.body?.profile;
+
+    try {
+      const run = await db.getRun(runId);
+      if (!run) {
+        return reply.status(404).send({
+          error: true,
+          message: 'Audit run not found'
+        });
+      }
+
+      const inputs = await db.getScoringInputs(runId);
+      if (!inputs) {
+        return reply.status(404).send({
+          error: true,
+          message: 'No stored scoring inputs for this run. Re-run the audit to enable re-scoring.'
+        });
+      }
+
+      let profile: ScoringProfile;
+      try {
+        profile = getScoringProfile(profileRef);
+      } catch (error) {
+        if (error instanceof NotFoundError) {
+          return reply.status(400).send({
+            error: true,
+            message: `Unknown scoring profile: ${profileRef}`
+          });
+        }
+        throw error;
+      }
+
+      // 가중치를 지정하지 않으면 원래 실행의 가중치 배수 유지
+      const weights = request.body?.weights || run.weightMultipliers;
+      let scoreResult;
+      try {
+        scoreResult = createScorerV2(profile.key).calculateScores(inputs.llmOutput, inputs.measuredData, weights);
+      } catch (error) {
+        if (error instanceof ValidationError) {
+          return reply.status(400).send({
+            error: true,
+            message: error.message
+          });
+        }
+        throw error;
+      }
+
+      return reply.send({
+        runId,
+        url: run.url,
+        scoringProfile: scoreResult.profile,
+        totalScore: scoreResult.totalScore,
+        weightMultipliers: weights,
+        appliedWeights: scoreResult.appliedWeights,
+        original: {
+          scoringProfile: run.scoringProfile,
+          totalScore: run.totalScore,
+          weightMultipliers: run.weightMultipliers
+        },
+        checks: Object.entries(scoreResult.categoryScores).map(([id, score]) => ({
+          id,
+          score,
+          source: scoreResult.scoreSources[id],
+          ...scoreResult.confidence[id],
+          ruleOutcomes: scoreResult.ruleOutcomes[id]
+        }))
+      });
+
+    } catch (error) {
+      fastify.log.error({ error, runId }, 'Failed to re-score audit run');
+      throw error;
+    }
+  });
+
   /**
    * GET /api/audit/list - 최근 감사 목록
    */
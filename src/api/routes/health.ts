@@ -2,6 +2,7 @@ import { FastifyInstance } from 'fastify';
 import { getDatabase } from '../../utils/database.js';
 import { getQueue } from '../../utils/queue.js';
 import { getStorage } from '../../utils/storage.js';
+import { buildUsageReport } from '../../lib/llm-usage.js';
 
 const HealthResponseSchema = {
   type: 'object',
@@ -207,6 +208,8 @@ export async function healthRoutes(fastify: FastifyInstance) {
       const queue = await getQueue();
       const counts = await queue.getJobCounts();
       const memoryUsage = process.memoryUsage();
+      // 저장된 실행 기준 합계 - 실행을 지우면 줄어들므로 counter가 아닌 gauge
+      const usage = buildUsageReport(await (await getDatabase()).aggregateLLMUsage({}), []);
 
       // Prometheus 형식으로 메트릭 생성
       const metrics = [
@@ -237,6 +240,25 @@ export async function healthRoutes(fastify: FastifyInstance) {
         '# HELP mall_analysis_uptime_seconds Process uptime in seconds',
         '# TYPE mall_analysis_uptime_seconds counter',
         `mall_analysis_uptime_seconds ${Math.floor(process.uptime())}`,
+        '',
+        '# HELP mall_analysis_llm_tokens LLM tokens used for grading by stored runs',
+        '# TYPE mall_analysis_llm_tokens gauge',
+        ...usage.byModel.flatMap(model => [
+          `mall_analysis_llm_tokens{model="${model.model}",type="prompt"} ${model.promptTokens}`,
+          `mall_analysis_llm_tokens{model="${model.model}",type="completion"} ${model.completionTokens}`
+        ]),
+        '',
+        '# HELP mall_analysis_llm_cost_usd LLM grading cost in USD by model for stored runs',
+        '# TYPE mall_analysis_llm_cost_usd gauge',
+        ...usage.byModel.map(model => `mall_analysis_llm_cost_usd{model="${model.model}"} ${model.costUsd}`),
+        '',
+        '# HELP mall_analysis_llm_api_key_cost_usd LLM grading cost in USD by API key for stored runs',
+        '# TYPE mall_analysis_llm_api_key_cost_usd gauge',
+        ...usage.byApiKey.map(key => `mall_analysis_llm_api_key_cost_usd{api_key="${key.apiKeyId}"} ${key.costUsd}`),
+        '',
+        '# HELP mall_analysis_llm_cost_usd_today LLM grading cost in USD for the current UTC day',
+        '# TYPE mall_analysis_llm_cost_usd_today gauge',
+        `mall_analysis_llm_cost_usd_today ${usage.byDay.find(day => day.date === new Date().toISOString().substring(0, 10))?.costUsd ?? 0}`,
       ];
 
       reply.header('Content-Type', 'text/plain; version=0.0.4');
@@ -0,0 +1,57 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { getDatabase } from '../../utils/database.js';
+import { buildUsageReport, DEFAULT_USAGE_RUNS_LIMIT } from '../../lib/llm-usage.js';
+
+interface UsageQuery {
+  from?: string; // YYYY-MM-DD (UTC, 포함)
+  to?: string;
+  apiKeyId?: string;
+  limit?: number; // 리포트에 포함할 최근 실행 수 (합계는 전체 기간)
+}
+
+const UsageQuerySchema = {
+  type: 'object',
+  properties: {
+    from: { type: 'string', format: 'date' },
+    to: { type: 'string', format: 'date' },
+    apiKeyId: { type: 'string', minLength: 1 },
+    limit: { type: 'integer', minimum: 0, maximum: 1000, default: DEFAULT_USAGE_RUNS_LIMIT }
+  }
+};
+
+export async function usageRoutes(fastify: FastifyInstance) {
+  const db = await getDatabase();
+
+  /**
+   * GET /api/usage - LLM 토큰 사용량/비용 리포트 (실행별, 일별, API 키별, 모델별)
+   */
+  fastify.get<{
+    Querystring: UsageQuery
+  }>('/', {
+    schema: {
+      querystring: UsageQuerySchema
+    }
+  }, async (request: FastifyRequest<{ Querystring: UsageQuery }>, reply: FastifyReply) => {
+    const { from, to, apiKeyId, limit = DEFAULT_USAGE_RUNS_LIMIT } = request.query;
+
+    if (from && to && from > to) {
+      return reply.status(400).send({
+        error: true,
+        message: '`from` must not be after `to`'
+      });
+    }
+
+    try {
+      // 합계는 DB에서 집계하고 실행 목록은 최근 limit개만 조회
+      const filter = { from, to, apiKeyId };
+      const [buckets, runs] = await Promise.all([
+        db.aggregateLLMUsage(filter),
+        limit > 0 ? db.listLLMUsage({ ...filter, limit }) : Promise.resolve([])
+      ]);
+      return reply.send(buildUsageReport(buckets, runs, filter));
+    } catch (error) {
+      fastify.log.error({ error }, 'Failed to build usage report');
+      throw error;
+    }
+  });
+}
@@ -8,8 +8,11 @@ import { dirname } from 'path';
 import { auditRoutes } from './routes/audit.js';
 import { healthRoutes } from './routes/health.js';
 import { screenshotRoutes } from './routes/screenshots.js';
+import { usageRoutes } from './routes/usage.js';
 import { setupDatabase } from '../utils/database.js';
 import { setupQueue } from '../utils/queue.js';
+import { setupScoringProfiles } from '../lib/scoring-profiles.js';
+import { setupPromptTemplates } from '../lib/prompt-templates.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -91,6 +94,7 @@ export async function createServer() {
   await fastify.register(healthRoutes, { prefix: '/api/health' });
   await fastify.register(auditRoutes, { prefix: '/api/audit' });
   await fastify.register(screenshotRoutes, { prefix: '/api/screenshots' });
+  await fastify.register(usageRoutes, { prefix: '/api/usage' });
 
   // Graceful shutdown
   const closeGracefully = async (signal: string) => {
@@ -114,6 +118,10 @@ export async function createServer() {
 // 서버 시작
 export async function startServer() {
   try {
+    // 채점 프로파일/프롬프트 템플릿 로드 및 검증 (config/rules.yaml, config/profiles, config/prompts)
+    setupScoringProfiles();
+    setupPromptTemplates();
+
     // 데이터베이스 초기화
     await setupDatabase();
     
@@ -1,5 +1,6 @@
 import 'dotenv/config';
 import { startServer } from './api/server.js';
+import { createLLMProvider } from './lib/llm-providers.js';
 
 // 환경변수 검증
 function validateEnv() {
@@ -17,8 +18,8 @@ function validateEnv() {
     warnings.push('FIRECRAWL_API_KEY not set - Firecrawl features will be disabled');
   }
   
-  if (!process.env.LLM_API_KEY) {
-    warnings.push('LLM_API_KEY not set - Using mock grader');
+  if (!createLLMProvider()) {
+    warnings.push(`LLM provider ${process.env.LLM_PROVIDER || 'openai'} not configured - Using mock grader`);
   }
 
   if (!process.env.S3_ACCESS_KEY || !process.env.S3_SECRET_KEY) {
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { AxeAuditResult, formatAccessibilityViolation, summarizeAccessibility } from '../accessibility.js';
+
+const violation = (overrides: Partial<AxeAuditResult['violations'][number]>): AxeAuditResult['violations'][number] => ({
+  id: 'image-alt',
+  impact: 'critical',
+  description: 'Ensures <img> elements have alternate text',
+  help: 'Images must have alternate text',
+  helpUrl: 'https://dequeuniversity.com/rules/axe/4.10/image-alt',
+  nodes: 1,
+  targets: ['img'],
+  ...overrides
+});
+
+describe('Accessibility', () => {
+  it('should order violations by impact and count serious ones', () => {
+    const metrics = summarizeAccessibility({
+      passes: 16,
+      violations: [
+        violation({ id: 'region', impact: 'moderate', nodes: 12 }),
+        violation({ id: 'color-contrast', impact: 'serious', nodes: 3 }),
+        violation({ id: 'link-name', impact: 'serious', nodes: 8, rect: { x: 10, y: 20, width: 30, height: 40 } }),
+        violation({ id: 'image-alt', impact: 'critical', targets: ['img.a', 'img.b', 'img.c', 'img.d', 'img.e', 'img.f'] })
+      ]
+    });
+
+    expect(metrics.violations.map(v => v.id)).toEqual(['image-alt', 'link-name', 'color-contrast', 'region']);
+    expect(metrics.violations[0].targets).toHaveLength(5);
+    expect(metrics.violations[1].bbox).toEqual([10, 20, 30, 40]);
+    expect(metrics.violationsByImpact).toEqual({ critical: 1, serious: 2, moderate: 1, minor: 0 });
+    expect(metrics.seriousViolations).toBe(3);
+    expect(metrics.score).toBe(80); // 16 / (16 + 4)
+  });
+
+  it('should treat unknown impact as minor and score an empty audit as passing', () => {
+    expect(summarizeAccessibility({ passes: 0, violations: [violation({ impact: null })] }).violations[0].impact).toBe('minor');
+    expect(summarizeAccessibility({ passes: 0, violations: [] }).score).toBe(100);
+  });
+
+  it('should format a violation for reports with HTML escaped', () => {
+    const [first] = summarizeAccessibility({ passes: 1, violations: [violation({ help: '', nodes: 2 })] }).violations;
+
+    expect(formatAccessibilityViolation(first)).toBe('치명 · Ensures &#60;img&#62; elements have alternate text · 요소 2개');
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { assessConfidence } from '../confidence.js';
+import { createScorerV2 } from '../scorer-v2.js';
+import { RuleOutcome } from '../../types/index.js';
+
+function outcome(source: 'rule' | 'ai', pointsPossible: number, measured = true): RuleOutcome {
+  return { ruleId: `${source}-${pointsPossible}`, description: '', source, pointsPossible, pointsAwarded: 0, measured };
+}
+
+describe('assessConfidence', () => {
+  it('should fully trust measured rule-based categories', () => {
+    const result = assessConfidence([outcome('rule', 6), outcome('rule', 4)]);
+
+    expect(result.confidence).toBe(1);
+    expect(result.confidenceLevel).toBe('high');
+    expect(result.confidenceFactors.ruleCoverage).toBe(1);
+  });
+
+  it('should not credit rules that fell back to the unmeasured default', () => {
+    const result = assessConfidence([outcome('rule', 6, false), outcome('rule', 4)]);
+
+    expect(result.confidence).toBe(0.4);
+    expect(result.confidenceLevel).toBe('low');
+  });
+
+  it('should combine evidence completeness with the LLM self-report for AI rules', () => {
+    const outcomes = [outcome('rule', 5), outcome('ai', 3), outcome('ai', 2)];
+    const evidence = {
+      logo: { bbox: [0, 0, 100, 40] },
+      colors: ['#000000']
+    };
+
+    const result = assessConfidence(outcomes, evidence, 0.8);
+
+    // 0.5 + 0.5 * ((1/2 + 0.8) / 2)
+    expect(result.confidenceFactors).toEqual({ evidence: 0.5, llm: 0.8, ruleCoverage: 0.5 });
+    expect(result.confidence).toBe(0.83);
+  });
+
+  it('should not count evidence that failed DOM verification', () => {
+    const evidence = {
+      logo: { bbox: [0, 0, 100, 40], verification: 'verified' },
+      cta: { text: '바로구매', verification: 'unverified' }
+    };
+
+    const result = assessConfidence([outcome('ai', 5), outcome('ai', 5)], evidence);
+
+    expect(result.confidenceFactors.evidence).toBe(0.5);
+  });
+
+  it('should rate AI-only categories without evidence as low', () => {
+    const result = assessConfidence([outcome('ai', 10)], {});
+
+    expect(result.confidence).toBe(0);
+    expect(result.confidenceLevel).toBe('low');
+  });
+});
+
+describe('ScorerV2 confidence', () => {
+  it('should report confidence for every category', () => {
+    const llmOutput: any = {
+      url: 'https://example.com',
+      scores: {
+        visuals: { id: 'visuals', score: 8, confidence: 0.9, evidence: { hero: { selector: '.hero img' } }, insights: [] }
+      }
+    };
+
+    const result = createScorerV2().calculateScores(llmOutput, {});
+
+    expect(Object.keys(result.confidence)).toEqual(Object.keys(result.categoryScores));
+    expect(result.confidence.visuals.confidenceFactors.llm).toBe(0.9);
+    expect(result.confidence.speed.confidenceLevel).toBe('low'); // 측정값 없음
+  });
+});
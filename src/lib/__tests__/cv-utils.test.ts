@@ -1,13 +1,26 @@
 import { describe, it, expect } from 'vitest';
+import sharp from 'sharp';
 import {
   calculateContrast,
   calculateAltRatio,
   isAboveTheFold,
   calculateDistance,
   detectPopups,
+  classifyOverlay,
   analyzeTypographyHierarchy,
   hasViewportMeta,
-  detectHorizontalOverflow
+  detectHorizontalOverflow,
+  sliceFullPageScreenshot,
+  summarizeMobileMetrics,
+  selectContrastTargets,
+  measureTextContrast,
+  summarizeTextContrast,
+  measureBrandColorReuse,
+  selectLogo,
+  checkLogoPosition,
+  cropEvidenceImage,
+  summarizeCtas,
+  LogoCandidate
 } from '../cv-utils.js';
 
 describe('CV Utils', () => {
@@ -44,6 +57,163 @@ describe('CV Utils', () => {
     });
   });
 
+  describe('text contrast', () => {
+    const element = (selector: string, text: string, rect: { x: number; y: number; width: number; height: number }, color = 'rgb(255, 255, 255)') => ({
+      selector, tag: selector.split('.')[0], text, rect, color, fontSize: 14, fontWeight: 400
+    });
+
+    it('should pick innermost CTA and promo texts from top to bottom', () => {
+      const targets = selectContrastTargets([
+        element('div.event', '오늘만 20% 할인 바로구매', { x: 0, y: 100, width: 375, height: 120 }),
+        element('p.copy', '오늘만 20% 할인', { x: 20, y: 110, width: 200, height: 30 }),
+        element('button.buy', '바로구매', { x: 20, y: 160, width: 160, height: 40 }),
+        element('p.intro', '브랜드 이야기', { x: 20, y: 20, width: 200, height: 30 }),
+        { ...element('span.badge', '무료배송', { x: 20, y: 60, width: 80, height: 20 }), color: undefined }
+      ]);
+
+      expect(targets.map(t => [t.kind, t.selector])).toEqual([['promo', 'p.copy'], ['cta', 'button.buy']]);
+    });
+
+    it('should sample the background behind each text box from the screenshot', async () => {
+      // 위쪽 절반은 검정 배경, 아래쪽 절반은 밝은 회색 배경
+      const image = await sharp({ create: { width: 200, height: 200, channels: 3, background: '#000000' } })
+        .composite([{
+          input: await sharp({ create: { width: 200, height: 100, channels: 3, background: '#eeeeee' } }).png().toBuffer(),
+          top: 100,
+          left: 0
+        }])
+        .png()
+        .toBuffer();
+
+      const results = await measureTextContrast(image, [
+        { kind: 'cta', selector: 'button.buy', text: '바로구매', rect: { x: 10, y: 10, width: 80, height: 30 }, color: 'rgb(255, 255, 255)' },
+        { kind: 'promo', selector: 'p.sale', text: '20% 할인', rect: { x: 5, y: 60, width: 40, height: 20 }, color: 'rgb(255, 255, 255)', fontSize: 28 }
+      ], 2);
+
+      expect(results[0]).toMatchObject({ background: '#000000', foreground: '#ffffff', passes: true });
+      expect(results[0].ratio).toBeCloseTo(21, 0);
+      expect(results[1]).toMatchObject({ background: '#eeeeee', largeText: true, passes: false });
+      expect(summarizeTextContrast(results).passRatio).toBe(0.5);
+    });
+  });
+
+  describe('measureBrandColorReuse', () => {
+    const viewport = { width: 200, height: 400 };
+    const block = (color: string, width: number, height: number) =>
+      sharp({ create: { width, height, channels: 3, background: color } }).png().toBuffer();
+
+    it('should measure how much of the first view reuses the logo color', async () => {
+      // 빨간 로고 + 왼쪽 세로 띠(빨강)로 첫 화면 격자 중 일부 칸에 브랜드 색상 사용
+      const page = await sharp({ create: { width: 200, height: 600, channels: 3, background: '#ffffff' } })
+        .composite([
+          { input: await block('#e4002b', 60, 30), top: 10, left: 10 },
+          { input: await block('#e4002b', 20, 340), top: 60, left: 0 }
+        ])
+        .png()
+        .toBuffer();
+
+      const result = await measureBrandColorReuse(page, { x: 10, y: 10, width: 60, height: 30 }, viewport, 0.02);
+
+      expect(result?.primaryColor).toMatch(/^#e[0-9a-f]0[0-9a-f]2[0-9a-f]$/);
+      expect(result?.cells).toBe(30); // 로고와 겹치는 맨 위 두 칸 제외
+      expect(result?.matchedCells).toBe(7);
+      expect(result?.reuseRatio).toBe(0.23);
+
+      // 띠가 칸 폭의 40%를 차지 - 칸 기준을 그보다 높이면 재사용으로 세지 않음
+      expect((await measureBrandColorReuse(page, { x: 10, y: 10, width: 60, height: 30 }, viewport, 0.5))?.matchedCells).toBe(0);
+    });
+
+    it('should not guess a brand color from a monochrome logo', async () => {
+      const page = await sharp({ create: { width: 200, height: 400, channels: 3, background: '#ffffff' } })
+        .composite([{ input: await block('#111111', 60, 30), top: 10, left: 10 }])
+        .png()
+        .toBuffer();
+
+      expect(await measureBrandColorReuse(page, { x: 10, y: 10, width: 60, height: 30 }, viewport, 0.02)).toBeNull();
+    });
+  });
+
+  describe('selectLogo', () => {
+    const viewport = { width: 375, height: 812 };
+    const candidate = (overrides: Partial<LogoCandidate>): LogoCandidate => ({
+      selector: 'img',
+      tag: 'img',
+      keyword: false,
+      homeLink: false,
+      inHeader: false,
+      rect: { x: 20, y: 20, width: 100, height: 40 },
+      ...overrides
+    });
+
+    it('should prefer a header image with a logo keyword linking home', () => {
+      const result = selectLogo([
+        candidate({ selector: 'img.banner', homeLink: true, rect: { x: 0, y: 120, width: 375, height: 200 } }),
+        candidate({ selector: 'a.home', tag: 'a', homeLink: true, inHeader: true, rect: { x: 10, y: 10, width: 140, height: 60 } }),
+        candidate({ selector: 'img.logo', src: '/logo.png', keyword: true, homeLink: true, inHeader: true })
+      ], viewport);
+
+      expect(result?.selector).toBe('img.logo');
+      expect(result?.source).toBe('dom');
+      expect(result?.matchedBy).toEqual(['keyword', 'homeLink', 'header']);
+      expect(result?.bottomPct).toBe(0.074);
+    });
+
+    it('should ignore candidates without a logo keyword or home link', () => {
+      expect(selectLogo([candidate({ inHeader: true })], viewport)).toBeNull();
+    });
+
+    it('should report the logo bottom edge as a share of the first view', () => {
+      expect(checkLogoPosition({ x: 0, y: 60, width: 100, height: 60 }, 812)).toEqual({
+        aboveTheFold: true,
+        bottomPct: 0.148 // 하단 120px / 812
+      });
+      expect(checkLogoPosition({ x: 0, y: 800, width: 100, height: 60 }, 812)).toEqual({ aboveTheFold: false, bottomPct: 1.059 });
+    });
+  });
+
+  describe('summarizeCtas', () => {
+    const viewport = { width: 375, height: 812 };
+
+    it('should measure purchase CTAs visible without scrolling', () => {
+      const report = summarizeCtas([
+        { selector: 'a.more', tag: 'a', text: '더보기', rect: { x: 20, y: 300, width: 120, height: 44 } },
+        { selector: 'a.review', tag: 'a', text: '구매후기', rect: { x: 20, y: 360, width: 120, height: 44 } },
+        { selector: 'button.buy', tag: 'button', text: '바로구매', rect: { x: 20, y: 1400, width: 335, height: 52 } },
+        { selector: 'a.coupon', tag: 'a', text: '쿠폰 받기', rect: { x: 20, y: 600, width: 160, height: 48 } },
+        { selector: 'a.cart', tag: 'a', text: '장바구니', rect: { x: 200, y: 700, width: 60, height: 14 } }
+      ], viewport);
+
+      expect(report.ctas.map(cta => cta.selector)).toEqual(['a.coupon', 'a.cart', 'button.buy']);
+      expect(report.ctas.map(cta => cta.aboveTheFold)).toEqual([true, true, false]);
+      expect(report.ctas.map(cta => cta.minSide)).toEqual([48, 14, 52]); // 장바구니는 글자 링크 수준 크기
+      expect(report.ctas[0].viewportShare).toBe(0.025);
+      expect(report.aboveFoldCount).toBe(2);
+      expect(report.aboveFoldSize).toBe(48); // 첫 화면 밖 바로구매 버튼은 제외
+    });
+
+    it('should report no above-the-fold size when every CTA needs scrolling', () => {
+      const report = summarizeCtas([
+        { selector: 'button.buy', tag: 'button', text: '바로구매', rect: { x: 20, y: 1400, width: 335, height: 52 } }
+      ], viewport);
+
+      expect(report.aboveFoldCount).toBe(0);
+      expect(report.aboveFoldSize).toBe(0);
+    });
+  });
+
+  describe('cropEvidenceImage', () => {
+    it('should crop the region with padding in device pixels', async () => {
+      const page = await sharp({ create: { width: 400, height: 800, channels: 3, background: '#ffffff' } }).png().toBuffer();
+
+      const image = await cropEvidenceImage(page, { x: 20, y: 10, width: 100, height: 40 }, 2, 16);
+      const { width, height } = await sharp(Buffer.from(image.split(',')[1], 'base64')).metadata();
+
+      expect(image).toMatch(/^data:image\/jpeg;base64,/);
+      expect(width).toBe(264); // (4 ~ 136) x 2
+      expect(height).toBe(132); // (0 ~ 66) x 2, 위쪽은 이미지 경계에서 잘림
+    });
+  });
+
   describe('calculateAltRatio', () => {
     it('should calculate alt text ratio correctly', () => {
       const html = `
@@ -144,6 +314,34 @@ describe('CV Utils', () => {
       const result = detectPopups(html);
       expect(result.count).toBe(0);
     });
+
+    it('should skip hidden layers and count nested matches once', () => {
+      const html = `
+        <div class="layer_popup" style="display:none"><div class="popup_content">숨김</div></div>
+        <div id="modal-event"><div class="modal_body"><div class="popup_close">닫기</div></div></div>
+      `;
+
+      expect(detectPopups(html).count).toBe(1);
+    });
+  });
+
+  describe('classifyOverlay', () => {
+    const viewport = { width: 375, height: 812 };
+    const overlay = (rect: { x: number; y: number; width: number; height: number }, text = '', role?: string) => ({
+      selector: 'div', tag: 'div', text, role, position: 'fixed', zIndex: 1000, rect, coverage: 0
+    });
+
+    it('should tell popups from dimmed backdrops', () => {
+      expect(classifyOverlay(overlay({ x: 20, y: 150, width: 335, height: 450 }, '첫 구매 20% 쿠폰'), viewport)).toBe('modal');
+      expect(classifyOverlay(overlay({ x: 0, y: 0, width: 375, height: 812 }), viewport)).toBe('backdrop');
+      expect(classifyOverlay(overlay({ x: 40, y: 300, width: 100, height: 60 }, '알림', 'dialog'), viewport)).toBe('modal');
+    });
+
+    it('should treat edge bars and small buttons as non-blocking', () => {
+      expect(classifyOverlay(overlay({ x: 0, y: 0, width: 375, height: 56 }, '테스트몰'), viewport)).toBe('bar');
+      expect(classifyOverlay(overlay({ x: 0, y: 752, width: 375, height: 60 }, '앱 설치'), viewport)).toBe('bar');
+      expect(classifyOverlay(overlay({ x: 310, y: 700, width: 50, height: 50 }, '채팅'), viewport)).toBe('floating');
+    });
   });
 
   describe('analyzeTypographyHierarchy', () => {
@@ -208,4 +406,75 @@ describe('CV Utils', () => {
       expect(detectHorizontalOverflow(html, 375)).toBe(false);
     });
   });
+
+  describe('summarizeMobileMetrics', () => {
+    it('should ignore a small share of fine print and inline links', () => {
+      const metrics = summarizeMobileMetrics({
+        viewportWidth: 375,
+        scrollWidth: 375,
+        fontSamples: [
+          { size: 14, chars: 900 },
+          { size: 16, chars: 80 },
+          { size: 10, chars: 20 } // 푸터 법적 고지
+        ],
+        touchTargets: [
+          ...Array.from({ length: 18 }, () => ({ width: 120, height: 48 })),
+          { width: 40, height: 18 }, // 본문 인라인 링크
+          { width: 335, height: 40 }
+        ]
+      });
+
+      expect(metrics.minFontSize).toBe(14);
+      expect(metrics.smallTextRatio).toBe(0.02);
+      expect(metrics.minTouchTarget).toBe(48);
+      expect(metrics.smallTouchTargetRatio).toBe(0.1);
+      expect(metrics.hasOverflow).toBe(false);
+    });
+
+    it('should report small text, small targets and overflow measured in the page', () => {
+      const metrics = summarizeMobileMetrics({
+        viewportWidth: 375,
+        scrollWidth: 1200,
+        fontSamples: [{ size: 11, chars: 500 }, { size: 13, chars: 500 }],
+        touchTargets: [{ width: 30, height: 30 }, { width: 32, height: 60 }]
+      });
+
+      expect(metrics.minFontSize).toBe(11);
+      expect(metrics.minTouchTarget).toBe(30);
+      expect(metrics.hasOverflow).toBe(true);
+    });
+
+    it('should leave sizes unmeasured when the page has no text or targets', () => {
+      const metrics = summarizeMobileMetrics({ viewportWidth: 375, scrollWidth: 375, fontSamples: [], touchTargets: [] });
+
+      expect(metrics.minFontSize).toBeUndefined();
+      expect(metrics.minTouchTarget).toBeUndefined();
+      expect(metrics.touchTargetCount).toBe(0);
+    });
+  });
+
+  describe('sliceFullPageScreenshot', () => {
+    const page = (height: number) => sharp({
+      create: { width: 750, height, channels: 3, background: '#ffffff' }
+    }).png().toBuffer();
+
+    it('should cut first view, middle and footer slices from a long page', async () => {
+      const slices = await sliceFullPageScreenshot(await page(6000), 812, 2);
+
+      expect(slices.map(s => [s.id, s.top, s.height])).toEqual([
+        ['firstView', 0, 812],
+        ['midPage', 1094, 812],
+        ['footer', 2188, 812]
+      ]);
+      expect(slices[0].image).toMatch(/^data:image\/jpeg;base64,/);
+    });
+
+    it('should skip slices a short page does not have', async () => {
+      const short = await sliceFullPageScreenshot(await page(1000), 812, 1);
+      const tiny = await sliceFullPageScreenshot(`data:image/png;base64,${(await page(400)).toString('base64')}`, 812, 1);
+
+      expect(short.map(s => s.id)).toEqual(['firstView', 'footer']);
+      expect(tiny.map(s => [s.id, s.height])).toEqual([['firstView', 400]]);
+    });
+  });
 });
\ No newline at end of file
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { verifyEvidence } from '../evidence-verifier.js';
+import { DomElementSnapshot, LLMGraderOutput } from '../../types/index.js';
+
+const elements: DomElementSnapshot[] = [
+  { selector: 'div#header', tag: 'div', text: '테스트몰 베스트 신상품', rect: { x: 0, y: 0, width: 375, height: 60 } },
+  { selector: 'h1.logo', tag: 'h1', text: '테스트몰', rect: { x: 10, y: 10, width: 100, height: 40 } },
+  { selector: 'div.main_visual', tag: 'div', text: '', rect: { x: 0, y: 60, width: 375, height: 300 } },
+  { selector: 'div.main_visual > img', tag: 'img', text: '봄 세일', rect: { x: 0, y: 60, width: 375, height: 300 } },
+  { selector: 'div.buy', tag: 'div', text: '바로구매 장바구니', rect: { x: 0, y: 600, width: 375, height: 60 } },
+  { selector: 'button.buy-now', tag: 'button', text: '바로구매', rect: { x: 20, y: 610, width: 160, height: 40 } },
+  { selector: 'p.notice', tag: 'p', text: '오늘만 무료배송', rect: { x: 20, y: 400, width: 200, height: 20 } }
+];
+
+const html = `<body>
+  <div id="header"><h1 class="logo">테스트몰</h1></div>
+  <div class="buy"><button class="buy-now">바로구매</button><button class="cart">장바구니</button></div>
+</body>`;
+
+function grading(evidence: Record<string, Record<string, any>>): LLMGraderOutput {
+  return {
+    url: 'https://shop.example.com',
+    scores: Object.fromEntries(Object.entries(evidence).map(([id, items]) => [
+      id,
+      { id, score: 8, evidence: items, insights: [] }
+    ])) as any
+  };
+}
+
+describe('Evidence verifier', () => {
+  it('should keep evidence whose bbox matches the claimed element', () => {
+    const output = grading({ bi: { logo: { text: '테스트몰', bbox: [12, 8, 98, 44] } } });
+
+    const result = verifyEvidence(output, elements, html);
+    const check = result.scores.bi as any;
+
+    expect(check.evidence.logo.verification).toBe('verified');
+    expect(check.evidence.logo.bbox).toEqual([12, 8, 98, 44]);
+    expect(check.score).toBe(8);
+    expect(check.evidenceVerification).toEqual({ checked: 1, verified: 1, snapped: 0, unverified: 0 });
+  });
+
+  it('should snap a misplaced bbox to the innermost matching element', () => {
+    const output = grading({ firstView: { cta: { selector: 'button.buy', text: '바로구매', bbox: [20, 300, 335, 50] } } });
+
+    const result = verifyEvidence(output, elements, html);
+    const cta = (result.scores.firstView as any).evidence.cta;
+
+    expect(cta.verification).toBe('snapped');
+    expect(cta.originalBbox).toEqual([20, 300, 335, 50]);
+    expect(cta.bbox).toEqual([20, 610, 160, 40]);
+    expect(result.scores.firstView.score).toBe(8);
+    expect((output.scores.firstView as any).evidence.cta.bbox).toEqual([20, 300, 335, 50]); // 입력은 그대로
+  });
+
+  it('should match selectors against the rendered HTML', () => {
+    const output = grading({ purchaseFlow: { cart: { selector: 'div.buy > button.cart' } } });
+
+    const result = verifyEvidence(output, [
+      ...elements,
+      { selector: 'button.cart', tag: 'button', text: '장바구니', rect: { x: 190, y: 610, width: 160, height: 40 } }
+    ], html);
+
+    expect((result.scores.purchaseFlow as any).evidence.cart.verification).toBe('verified');
+  });
+
+  it('should mark claims missing from the DOM as unverified and downgrade the score', () => {
+    const output = grading({
+      uspPromo: {
+        promoTexts: [
+          { text: '오늘만 무료배송', bbox: [20, 400, 200, 20] },
+          { text: '신규가입 10% 할인', bbox: [20, 450, 335, 40] }
+        ]
+      }
+    });
+
+    const result = verifyEvidence(output, elements, html);
+    const check = result.scores.uspPromo as any;
+
+    expect(check.evidence.promoTexts.map((item: any) => item.verification)).toEqual(['verified', 'unverified']);
+    expect(check.evidenceVerification).toEqual({ checked: 2, verified: 1, snapped: 0, unverified: 1, originalScore: 8 });
+    expect(check.score).toBe(6); // 8 * (1 - 0.5 * 1/2)
+  });
+
+  it('should accept text inside banner images and skip evidence from other pages', () => {
+    const output = grading({
+      visuals: {
+        banner: { text: '봄 세일 30%', bbox: [40, 120, 200, 60] },
+        pdpImage: { image: 'pdp', text: '상품 상세 이미지' }
+      }
+    });
+
+    const result = verifyEvidence(output, elements, html);
+    const check = result.scores.visuals as any;
+
+    expect(check.evidence.banner.verification).toBe('verified');
+    expect(check.evidence.pdpImage.verification).toBeUndefined();
+    expect(check.evidenceVerification.checked).toBe(1);
+  });
+
+  it('should leave the output unchanged without a DOM snapshot', () => {
+    const output = grading({ bi: { logo: { text: '없는 로고', bbox: [0, 0, 10, 10] } } });
+
+    expect(verifyEvidence(output, [], html)).toEqual(output);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { condenseHtml, estimateTokens } from '../html-condenser.js';
+
+// Cafe24 스킨처럼 head/script가 앞부분을 차지하는 페이지
+const cafe24Page = `<!DOCTYPE html>
+<html lang="ko">
+<head>
+  <title>테스트몰</title>
+  <meta name="description" content="테스트몰 공식 스토어">
+  <link rel="stylesheet" href="/ind-script/optimizer.php?filename=skin.css">
+  ${'<script>var EC_GLOBAL_INFO = {"shop_no":1};</script>\n'.repeat(300)}
+  <style>.xans-layout { color: red; }</style>
+</head>
+<body>
+  <div id="header" data-ec-module="header" style="height:60px">
+    <h1 class="xans-element- xans-layout xans-layout-logotop"><a href="/"><img src="/logo.png" alt="테스트몰"></a></h1>
+    <div class="empty-wrapper"><span></span></div>
+  </div>
+  <div id="category"><ul><li><a href="/best">베스트</a></li><li><a href="/new">신상품</a></li></ul></div>
+  <div class="main_visual"><a href="/event"><img src="data:image/png;base64,AAAA" alt="봄 세일 30%"></a></div>
+  <div class="layer_popup" style="display:none">숨겨진 팝업 문구</div>
+  <div id="contents"><h2 class="title">MD 추천</h2><p>오늘만 무료배송</p><!-- 주석 --></div>
+  <div id="footer">
+    <p>사업자등록번호 123-45-67890</p>
+    <a href="/member/privacy.html">개인정보처리방침</a>
+    <a href="/member/agreement.html">이용약관</a>
+    <p>${'회사 소개 문구 '.repeat(200)}</p>
+  </div>
+</body>
+</html>`;
+
+describe('HTML condenser', () => {
+  it('should drop scripts, styles, hidden elements and noisy attributes', () => {
+    const result = condenseHtml(cafe24Page);
+
+    expect(result.html).not.toContain('EC_GLOBAL_INFO');
+    expect(result.html).not.toContain('xans-layout { color');
+    expect(result.html).not.toContain('숨겨진 팝업 문구');
+    expect(result.html).not.toContain('data-ec-module');
+    expect(result.html).not.toContain('style=');
+    expect(result.html).not.toContain('empty-wrapper');
+    expect(result.html).not.toContain('주석');
+    expect(result.html).toContain('src="data:..."');
+    expect(result.originalLength).toBe(cafe24Page.length);
+  });
+
+  it('should keep header, nav, hero, footer and visible text with selectors', () => {
+    const result = condenseHtml(cafe24Page);
+
+    expect(result.sections).toEqual(['head', 'header', 'nav', 'hero', 'footer', 'text']);
+    expect(result.html).toContain('<title>테스트몰</title>');
+    expect(result.html).toContain('<div id="header"><h1 class="xans-element- xans-layout xans-layout-logotop">');
+    expect(result.html).toContain('alt="봄 세일 30%"');
+    expect(result.html).toContain('h2.title: MD 추천');
+    expect(result.html).toContain('div#contents > p: 오늘만 무료배송');
+    expect(result.truncated).toBe(false);
+  });
+
+  it('should fit the token budget and keep policy links when the footer does not fit', () => {
+    const result = condenseHtml(cafe24Page, { maxTokens: 300 });
+
+    expect(result.truncated).toBe(true);
+    expect(result.estimatedTokens).toBeLessThanOrEqual(300);
+    expect(result.sections).toContain('policies');
+    expect(result.html).toContain('div#footer > a: 개인정보처리방침 (/member/privacy.html)');
+    expect(result.html).toContain('<!-- footer (truncated) -->');
+    expect(result.html).not.toContain('MD 추천');
+  });
+
+  it('should list images without alt text', () => {
+    const result = condenseHtml('<body><div class="item"><img src="/p.jpg"><span>3,900원</span></div></body>');
+
+    expect(result.html).toContain('div.item > img: [img] (alt 없음)');
+    expect(result.html).toContain('div.item > span: 3,900원');
+  });
+
+  it('should estimate Korean text as one token per character', () => {
+    expect(estimateTokens('무료배송')).toBe(4);
+    expect(estimateTokens('free shipping')).toBe(4);
+  });
+});
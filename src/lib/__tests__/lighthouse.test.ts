@@ -1,4 +1,5 @@
 import { describe, it, expect, beforeEach } from 'vitest';
+import { writeFile } from 'fs/promises';
 import { LighthouseRunner } from '../lighthouse.js';
 import { LighthouseMetrics } from '../../types/index.js';
 
@@ -113,7 +114,7 @@ describe('LighthouseRunner', () => {
   });
 
   describe('extractMetrics', () => {
-    it('should extract metrics from Lighthouse data', () => {
+    it('should extract metrics from Lighthouse data', async () => {
       const mockData = {
         audits: {
           'largest-contentful-paint': { numericValue: 2500 },
@@ -124,7 +125,12 @@ describe('LighthouseRunner', () => {
           'interactive': { numericValue: 4500 },
           'network-requests': {
             details: {
-              items: new Array(50).fill({})
+              items: [
+                ...new Array(47).fill({ statusCode: 200 }),
+                { statusCode: 304 },
+                { statusCode: 404 },
+                { statusCode: 503 }
+              ]
             }
           },
           'redirects': {
@@ -135,10 +141,28 @@ describe('LighthouseRunner', () => {
         }
       };
 
-      // Private method test through reflection would be here
-      // Since we can't directly test private methods in TypeScript,
-      // we would test this through the public `run` method in integration tests
-      void mockData; // Marking as intentionally unused
+      // CLI 대신 결과 파일만 써 주는 실행기
+      class RecordedLighthouseRunner extends LighthouseRunner {
+        protected async executeLighthouse(args: string[]): Promise<number> {
+          const outputPath = args.find(arg => arg.startsWith('--output-path='))!.split('=')[1];
+          await writeFile(outputPath, JSON.stringify(mockData));
+          return 0;
+        }
+      }
+
+      const result = await new RecordedLighthouseRunner().run({ url: 'https://example.com' });
+
+      expect(result.metrics).toEqual({
+        LCP: 2.5,
+        CLS: 0.1,
+        TBT: 300,
+        FCP: 1.2,
+        SI: 3.4,
+        TTI: 4.5,
+        requests: 50,
+        errors: 2,
+        redirects: 2
+      });
     });
   });
 
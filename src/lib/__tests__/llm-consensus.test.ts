@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { aggregateGradings, MAX_LLM_SAMPLES, resolveSampleCount } from '../llm-consensus.js';
+import { LLMGraderOutput } from '../../types/index.js';
+
+function grading(scores: Record<string, number>, tokensUsed = 100): LLMGraderOutput {
+  return {
+    url: 'https://example.com',
+    scores: Object.fromEntries(Object.entries(scores).map(([id, score]) => [
+      id,
+      { id, score, confidence: score / 10, insights: [`${id}-${score}`] }
+    ])) as any,
+    metadata: {
+      modelRequested: 'gpt-5',
+      modelUsed: 'gpt-5',
+      processingTimeMs: tokensUsed * 10,
+      tokensUsed,
+      promptTokens: tokensUsed / 2,
+      completionTokens: tokensUsed / 2
+    }
+  };
+}
+
+describe('aggregateGradings', () => {
+  it('should return a single grading unchanged', () => {
+    const output = grading({ bi: 7 });
+
+    expect(aggregateGradings([output])).toBe(output);
+  });
+
+  it('should use the median score per category and record the spread', () => {
+    const result = aggregateGradings([
+      grading({ bi: 7, trust: 2 }),
+      grading({ bi: 8, trust: 9 }),
+      grading({ bi: 7, trust: 5 })
+    ]);
+
+    expect(result.scores.bi.score).toBe(7);
+    expect(result.scores.trust.score).toBe(5);
+    expect(result.scores.bi.scoreSpread).toEqual({ samples: [7, 8, 7], median: 7, variance: 0.22, disagreement: false });
+    expect(result.scores.trust.scoreSpread?.disagreement).toBe(true);
+    expect(result.consensus).toEqual({ samples: 3, disagreements: ['trust'] });
+  });
+
+  it('should keep insights from the sample closest to the consensus', () => {
+    const result = aggregateGradings([
+      grading({ bi: 2 }),
+      grading({ bi: 6 }),
+      grading({ bi: 7 })
+    ]);
+
+    expect(result.scores.bi.insights).toEqual(['bi-6']);
+  });
+
+  it('should sum token usage across samples', () => {
+    const result = aggregateGradings([grading({ bi: 7 }, 100), grading({ bi: 8 }, 300)]);
+
+    expect(result.scores.bi.score).toBe(7.5);
+    expect(result.metadata?.tokensUsed).toBe(400);
+    expect(result.metadata?.processingTimeMs).toBe(3000);
+  });
+
+  describe('resolveSampleCount', () => {
+    it('should clamp sample counts to an integer between 1 and the maximum', () => {
+      expect(resolveSampleCount(undefined)).toBe(1);
+      expect(resolveSampleCount('3')).toBe(3);
+      expect(resolveSampleCount(2.7)).toBe(2);
+      expect(resolveSampleCount('abc')).toBe(1);
+      expect(resolveSampleCount('0')).toBe(1);
+      expect(resolveSampleCount(-2)).toBe(1);
+      expect(resolveSampleCount(Infinity)).toBe(1);
+      expect(resolveSampleCount(99)).toBe(MAX_LLM_SAMPLES);
+    });
+  });
+});
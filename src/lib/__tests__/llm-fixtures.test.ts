@@ -0,0 +1,60 @@
+import { describe, it, expect, vi } from 'vitest';
+import { mkdtempSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { hashPrompt, RecordingProvider, ReplayProvider, SyntheticProvider } from '../llm-fixtures.js';
+import { LLMProvider } from '../llm-providers.js';
+import { NotFoundError } from '../errors.js';
+
+const request = {
+  systemPrompt: 'system',
+  userPrompt: 'user',
+  images: [{ id: 'firstView', label: '퍼스트뷰', image: 'data:image/png;base64,AAAA' }]
+};
+
+describe('LLM fixtures', () => {
+  it('should hash prompts deterministically', () => {
+    expect(hashPrompt(request)).toBe(hashPrompt({ ...request }));
+    expect(hashPrompt(request)).not.toBe(hashPrompt({ ...request, userPrompt: 'changed' }));
+    expect(hashPrompt(request)).not.toBe(hashPrompt({ ...request, images: undefined }));
+    expect(hashPrompt(request)).not.toBe(hashPrompt({ ...request, images: [{ ...request.images[0], label: '하단' }] }));
+  });
+
+  it('should replay a recorded completion without calling the provider', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'llm-fixtures-'));
+    const inner: LLMProvider = {
+      name: 'openai',
+      model: 'gpt-5',
+      complete: vi.fn().mockResolvedValue({ content: '{"url": "x"}', model: 'gpt-5', promptTokens: 1, completionTokens: 2, totalTokens: 3 })
+    };
+
+    const recorded = await new RecordingProvider(inner, dir).complete(request);
+    const replayed = await new ReplayProvider(dir, 'openai').complete(request);
+
+    expect(readdirSync(dir)).toEqual([`${hashPrompt(request)}.json`]);
+    expect(replayed).toEqual(recorded);
+    expect(inner.complete).toHaveBeenCalledTimes(1);
+  });
+
+  it('should record a synthetic response without recording metadata', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'llm-fixtures-'));
+    const responsePath = join(dir, 'response.json');
+    writeFileSync(responsePath, JSON.stringify({ promptTokens: 10, completionTokens: 5, response: { url: 'x' } }));
+
+    await new RecordingProvider(new SyntheticProvider(responsePath, 'openai'), join(dir, 'llm')).complete(request);
+    const fixture = JSON.parse(readFileSync(join(dir, 'llm', `${hashPrompt(request)}.json`), 'utf-8'));
+
+    expect(fixture).toEqual({
+      key: hashPrompt(request),
+      synthetic: true,
+      request: { systemPromptLength: 6, userPromptLength: 4, imageCount: 1 },
+      completion: { content: '{"url":"x"}', model: 'synthetic', promptTokens: 10, completionTokens: 5, totalTokens: 15 }
+    });
+  });
+
+  it('should fail when no fixture matches the prompt', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'llm-fixtures-'));
+
+    await expect(new ReplayProvider(dir, 'openai').complete(request)).rejects.toThrow(NotFoundError);
+  });
+});
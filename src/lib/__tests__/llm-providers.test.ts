@@ -0,0 +1,124 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { AnthropicProvider, createLLMProvider, LocalModelProvider, OpenAIProvider } from '../llm-providers.js';
+
+const images = [
+  { id: 'firstView', label: '퍼스트뷰 (페이지 y 0-812px)', image: 'data:image/png;base64,AAAA' },
+  { id: 'pdp', label: '상품 상세 페이지 첫 화면', image: 'https://cdn.example.com/pdp.png' }
+];
+
+describe('LLM providers', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  describe('createLLMProvider', () => {
+    it('should apply LLM_API_KEY and LLM_MODEL to the LLM_PROVIDER default', () => {
+      vi.stubEnv('LLM_PROVIDER', 'anthropic');
+      vi.stubEnv('LLM_API_KEY', 'sk-ant-test');
+      vi.stubEnv('LLM_MODEL', 'claude-test');
+
+      const provider = createLLMProvider();
+
+      expect(provider).toBeInstanceOf(AnthropicProvider);
+      expect(provider?.model).toBe('claude-test');
+    });
+
+    it('should return null for providers without credentials', () => {
+      vi.stubEnv('LLM_PROVIDER', 'openai');
+      vi.stubEnv('LLM_API_KEY', 'sk-test');
+      vi.stubEnv('ANTHROPIC_API_KEY', '');
+      vi.stubEnv('LOCAL_LLM_BASE_URL', '');
+
+      expect(createLLMProvider('openai')?.name).toBe('openai');
+      expect(createLLMProvider('anthropic')).toBeNull();
+      expect(createLLMProvider('local')).toBeNull();
+    });
+
+    it('should create an OpenAI-compatible local provider from its base URL', () => {
+      vi.stubEnv('LOCAL_LLM_BASE_URL', 'http://localhost:11434/v1');
+      vi.stubEnv('LOCAL_LLM_MODEL', 'qwen2.5vl');
+
+      const provider = createLLMProvider('local');
+
+      expect(provider).toBeInstanceOf(LocalModelProvider);
+      expect(provider?.model).toBe('qwen2.5vl');
+    });
+  });
+
+  describe('OpenAIProvider', () => {
+    const completionFor = (model: string) => {
+      const provider = new OpenAIProvider('sk-test', model);
+      const create = vi.fn().mockResolvedValue({
+        model,
+        choices: [{ message: { content: '{"url": "x"}' } }],
+        usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 }
+      });
+      (provider as any).client = { chat: { completions: { create } } };
+      return { provider, create };
+    };
+
+    it('should attach labeled images for vision models', async () => {
+      const { provider, create } = completionFor('gpt-4o');
+
+      await provider.complete({ systemPrompt: 'system', userPrompt: 'user', images });
+
+      const content = create.mock.calls[0][0].messages[1].content;
+      expect(content.map((part: any) => part.type)).toEqual(['text', 'text', 'image_url', 'text', 'image_url']);
+      expect(content[3].text).toBe('[pdp] 상품 상세 페이지 첫 화면');
+      expect(content[4].image_url.url).toBe('https://cdn.example.com/pdp.png');
+    });
+
+    it('should send text only for models without image input', async () => {
+      const { provider, create } = completionFor('gpt-3.5-turbo');
+
+      await provider.complete({ systemPrompt: 'system', userPrompt: 'user', images });
+
+      expect(create.mock.calls[0][0].messages[1]).toEqual({ role: 'user', content: 'user' });
+    });
+  });
+
+  describe('AnthropicProvider', () => {
+    it('should send each screenshot as a labeled image block and map usage', async () => {
+      const fetchMock = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          model: 'claude-test-1',
+          content: [{ type: 'text', text: '{"url": "x"}' }],
+          usage: { input_tokens: 120, output_tokens: 30 }
+        })
+      });
+      vi.stubGlobal('fetch', fetchMock);
+
+      const completion = await new AnthropicProvider('key', 'claude-test').complete({
+        systemPrompt: 'system',
+        userPrompt: 'user',
+        images
+      });
+
+      const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+      expect(body.system).toBe('system');
+      expect(body.messages[0].content).toEqual([
+        { type: 'text', text: '[firstView] 퍼스트뷰 (페이지 y 0-812px)' },
+        { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'AAAA' } },
+        { type: 'text', text: '[pdp] 상품 상세 페이지 첫 화면' },
+        { type: 'image', source: { type: 'url', url: 'https://cdn.example.com/pdp.png' } },
+        { type: 'text', text: 'user' }
+      ]);
+      expect(completion).toEqual({
+        content: '{"url": "x"}',
+        model: 'claude-test-1',
+        promptTokens: 120,
+        completionTokens: 30,
+        totalTokens: 150
+      });
+    });
+
+    it('should surface API errors', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 401, text: async () => 'invalid x-api-key' }));
+
+      await expect(new AnthropicProvider('bad').complete({ systemPrompt: '', userPrompt: '' }))
+        .rejects.toThrow('Anthropic API error: 401');
+    });
+  });
+});
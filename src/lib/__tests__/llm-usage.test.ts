@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addToUsageBuckets,
+  buildUsageReport,
+  calculateLLMCost,
+  getApiKeyId,
+  loadLLMPricing,
+  summarizeLLMUsage,
+  toLLMUsage,
+  toUsageEntry,
+  UsageBucket
+} from '../llm-usage.js';
+import { AuditRun } from '../../types/index.js';
+
+function run(runId: string, startedAt: string, costUsd: number | null, apiKeyId?: string): AuditRun {
+  return {
+    runId,
+    url: 'https://example.com',
+    status: 'completed',
+    startedAt: new Date(startedAt),
+    apiKeyId,
+    llmUsage: { provider: 'openai', model: 'gpt-5', promptTokens: 1000, completionTokens: 200, totalTokens: 1200, costUsd }
+  };
+}
+
+describe('LLM usage', () => {
+  it('should load the bundled price table', () => {
+    expect(loadLLMPricing().models['gpt-5']).toEqual({ input: 1.25, output: 10 });
+  });
+
+  it('should price models by exact name or longest prefix', () => {
+    const pricing = loadLLMPricing();
+
+    expect(calculateLLMCost('gpt-5', 1_000_000, 100_000, pricing)).toBe(2.25);
+    expect(calculateLLMCost('gpt-5-mini-2025-08-07', 1_000_000, 0, pricing)).toBe(0.25);
+    expect(calculateLLMCost('unknown-model', 1000, 1000, pricing)).toBeNull();
+  });
+
+  it('should convert grading metadata and treat local models as free', () => {
+    const metadata = {
+      modelRequested: 'llava',
+      modelUsed: 'llava',
+      processingTimeMs: 1,
+      tokensUsed: 300,
+      promptTokens: 200,
+      completionTokens: 100
+    };
+
+    expect(toLLMUsage(undefined)).toBeUndefined();
+    expect(toLLMUsage({ ...metadata, provider: 'local' })?.costUsd).toBe(0);
+    expect(toLLMUsage({ ...metadata, provider: 'openai' })?.costUsd).toBeNull();
+  });
+
+  it('should hash API keys instead of storing them', () => {
+    expect(getApiKeyId('secret-key')).toHaveLength(12);
+    expect(getApiKeyId('secret-key')).not.toContain('secret');
+    expect(getApiKeyId(undefined)).toBeUndefined();
+  });
+
+  it('should total usage per day and per API key', () => {
+    const report = summarizeLLMUsage([
+      run('a', '2026-10-01T10:00:00Z', 0.5, 'key-a'),
+      run('b', '2026-10-01T23:00:00Z', 0.25),
+      run('c', '2026-10-02T09:00:00Z', null, 'key-a'),
+      { runId: 'mock', url: 'https://example.com', status: 'completed', startedAt: new Date('2026-10-02') }
+    ]);
+
+    expect(report.total).toMatchObject({ runs: 3, promptTokens: 3000, costUsd: 0.75, unpricedRuns: 1 });
+    expect(report.byDay.map(day => [day.date, day.costUsd])).toEqual([['2026-10-01', 0.75], ['2026-10-02', 0]]);
+    expect(report.byApiKey.map(key => [key.apiKeyId, key.runs])).toEqual([['key-a', 2], ['anonymous', 1]]);
+    expect(report.runs.map(entry => entry.runId)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should filter by date range and API key', () => {
+    const runs = [run('a', '2026-10-01T10:00:00Z', 0.5, 'key-a'), run('b', '2026-10-02T10:00:00Z', 0.25, 'key-b')];
+
+    expect(summarizeLLMUsage(runs, { from: '2026-10-02' }).total.runs).toBe(1);
+    expect(summarizeLLMUsage(runs, { apiKeyId: 'key-a' }).total.costUsd).toBe(0.5);
+  });
+
+  it('should keep a running tally that drops replaced and deleted runs', () => {
+    const buckets = new Map<string, UsageBucket>();
+    const a = run('a', '2026-10-01T10:00:00Z', 0.5, 'key-a');
+    const b = run('b', '2026-10-01T11:00:00Z', null);
+    addToUsageBuckets(buckets, toUsageEntry(a, a.llmUsage!));
+    addToUsageBuckets(buckets, toUsageEntry(b, b.llmUsage!));
+    addToUsageBuckets(buckets, toUsageEntry(b, b.llmUsage!), -1);
+
+    const report = buildUsageReport(Array.from(buckets.values()), []);
+
+    expect(buckets.size).toBe(1);
+    expect(report.total).toEqual({ runs: 1, promptTokens: 1000, completionTokens: 200, totalTokens: 1200, costUsd: 0.5, unpricedRuns: 0 });
+    expect(report.runs).toEqual([]);
+  });
+
+  it('should build the same report from pre-aggregated buckets', () => {
+    const runs = [run('a', '2026-10-01T10:00:00Z', 0.5, 'key-a'), run('b', '2026-10-02T10:00:00Z', 0.25, 'key-b')];
+    const buckets: UsageBucket[] = [
+      { date: '2026-10-01', apiKeyId: 'key-a', model: 'gpt-5', runs: 1, promptTokens: 1000, completionTokens: 200, totalTokens: 1200, costUsd: 0.5, unpricedRuns: 0 },
+      { date: '2026-10-02', apiKeyId: 'key-b', model: 'gpt-5', runs: 1, promptTokens: 1000, completionTokens: 200, totalTokens: 1200, costUsd: 0.25, unpricedRuns: 0 }
+    ];
+    const latest = [toUsageEntry(runs[1], runs[1].llmUsage!)];
+
+    const report = buildUsageReport(buckets, latest, { to: '2026-10-02' });
+
+    expect({ ...report, runs: [] }).toEqual({ ...summarizeLLMUsage(runs, { to: '2026-10-02' }), runs: [] });
+    expect(report.runs.map(entry => entry.runId)).toEqual(['b']);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { getPromptTemplate, loadPromptTemplates, renderTemplate, PromptVariables } from '../prompt-templates.js';
+import { NotFoundError, ValidationError } from '../errors.js';
+
+function writeTemplates(files: Record<string, string>): string {
+  const dir = mkdtempSync(join(tmpdir(), 'prompt-templates-'));
+  for (const [name, content] of Object.entries(files)) {
+    writeFileSync(join(dir, name), content);
+  }
+  return dir;
+}
+
+const variables: PromptVariables = {
+  url: 'https://shop.example.com',
+  platform: 'cafe24',
+  verticalName: '',
+  keywords: '{}',
+  htmlLength: '10',
+  htmlExcerpt: '<p>{{url}}</p>',
+  condensedHtml: '',
+  actionCount: '0',
+  actionScreenshots: '없음',
+  images: '- 없음',
+  imageCount: '0'
+};
+
+describe('Prompt templates', () => {
+  it('should load the bundled grader template', () => {
+    const template = loadPromptTemplates().get('grader@1');
+
+    expect(template?.system).toContain('이커머스 최적화 전문가');
+    expect(template?.user).toContain('{{htmlExcerpt}}');
+  });
+
+  it('should register each version separately', () => {
+    const dir = writeTemplates({
+      'a-v1.yaml': 'prompt: { name: a, version: 1 }\nsystem: s1\nuser: u1',
+      'a-v2.yaml': 'prompt: { name: a, version: 2 }\nsystem: s2\nuser: u2'
+    });
+    const templates = loadPromptTemplates(dir);
+
+    expect(Array.from(templates.keys())).toEqual(['a@1', 'a@2']);
+    expect(templates.get('a@2')?.user).toBe('u2');
+  });
+
+  it('should resolve template references', () => {
+    expect(getPromptTemplate().key).toBe('grader@3');
+    expect(getPromptTemplate('grader').key).toBe('grader@3');
+    expect(getPromptTemplate('grader@1').version).toBe(1);
+    expect(() => getPromptTemplate('grader@99')).toThrow(NotFoundError);
+  });
+
+  it('should reject unknown variables, unmatched sections and duplicates', () => {
+    const unknown = writeTemplates({
+      'x.yaml': 'prompt: { name: x, version: 1 }\nsystem: s\nuser: "{{price}}"'
+    });
+    const unmatched = writeTemplates({
+      'x.yaml': 'prompt: { name: x, version: 1 }\nsystem: s\nuser: "{{#verticalName}} open"'
+    });
+    const duplicate = writeTemplates({
+      'x1.yaml': 'prompt: { name: x, version: 1 }\nsystem: s\nuser: u',
+      'x2.yaml': 'prompt: { name: x, version: 1 }\nsystem: s\nuser: u'
+    });
+    const missingVersion = writeTemplates({
+      'x.yaml': 'prompt: { name: x }\nsystem: s\nuser: u'
+    });
+
+    expect(() => loadPromptTemplates(unknown)).toThrow(/Invalid prompt template/);
+    expect(() => loadPromptTemplates(unmatched)).toThrow(ValidationError);
+    expect(() => loadPromptTemplates(duplicate)).toThrow(/Duplicate prompt template x@1/);
+    expect(() => loadPromptTemplates(missingVersion)).toThrow(ValidationError);
+  });
+
+  it('should render variables and drop empty sections', () => {
+    const text = '{{url}} ({{platform}}){{#verticalName}} / {{verticalName}}{{/verticalName}}';
+
+    expect(renderTemplate(text, variables)).toBe('https://shop.example.com (cafe24)');
+    expect(renderTemplate(text, { ...variables, verticalName: '식품' })).toBe('https://shop.example.com (cafe24) / 식품');
+  });
+
+  it('should not re-render placeholders inside substituted values', () => {
+    expect(renderTemplate('HTML: {{htmlExcerpt}}', variables)).toBe('HTML: <p>{{url}}</p>');
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { loadRulesConfig, parseRulesConfig, RulesEngine, formatThreshold, formatMeasuredValue } from '../rules-engine.js';
+import { ValidationError } from '../errors.js';
+
+describe('RulesEngine', () => {
+  describe('loadRulesConfig', () => {
+    it('should load and validate config/rules.yaml', () => {
+      const config = loadRulesConfig();
+
+      expect(config.settings.maxCategoryScore).toBe(10);
+      expect(config.speed.rules.lcp.metric).toBe('lighthouse.LCP');
+      expect(config.seoAnalytics.rules.analytics.anyOf).toContain('wcs.naver.net');
+    });
+
+    it('should reject thresholds without matching points', () => {
+      const raw = loadRulesConfig();
+      const broken = JSON.parse(JSON.stringify(raw));
+      broken.speed.rules.lcp.points = [4, 3];
+
+      expect(() => parseRulesConfig(broken)).toThrow(ValidationError);
+    });
+
+    it('should reject a missing category', () => {
+      const broken = JSON.parse(JSON.stringify(loadRulesConfig()));
+      delete broken.trust;
+
+      expect(() => parseRulesConfig(broken)).toThrow(/Invalid scoring rules/);
+    });
+  });
+
+  describe('evaluateCategory', () => {
+    const engine = new RulesEngine(loadRulesConfig());
+
+    it('should treat ascending points as higher-is-better', () => {
+      const low = engine.evaluateCategory('mobile', { cv: { minTouchTarget: 36 } });
+      const high = engine.evaluateCategory('mobile', { cv: { minTouchTarget: 44 } });
+
+      expect(low.outcomes.find(o => o.ruleId === 'tapTargets')?.pointsAwarded).toBe(1);
+      expect(high.outcomes.find(o => o.ruleId === 'tapTargets')?.pointsAwarded).toBe(3);
+    });
+
+    it('should match anyOf against a list of values', () => {
+      const result = engine.evaluateCategory('seoAnalytics', {
+        html: { scriptSources: ['//wcs.naver.net/wcslog.js'] }
+      });
+
+      expect(result.outcomes.find(o => o.ruleId === 'analytics')?.pointsAwarded).toBe(3);
+    });
+
+    it('should scale AI rules by the LLM score', () => {
+      const result = engine.evaluateCategory('purchaseFlow', {}, 5);
+
+      expect(result.source).toBe('ai');
+      expect(result.score).toBe(5);
+    });
+  });
+
+  describe('calculateTotal', () => {
+    it('should normalize weighted category scores to 100', () => {
+      const engine = new RulesEngine(loadRulesConfig());
+      const scores = Object.fromEntries(engine.getCategoryIds().map(id => [id, 10]));
+
+      expect(engine.calculateTotal(scores)).toBe(100);
+    });
+  });
+
+  describe('formatThreshold', () => {
+    it('should describe each matcher for reports', () => {
+      expect(formatThreshold({ thresholds: [2.5, 4.0] })).toBe('2.5 / 4');
+      expect(formatThreshold({ min: 3, max: 8 })).toBe('3 ~ 8');
+      expect(formatThreshold({ max: 0.1 })).toBe('≤ 0.1');
+      expect(formatThreshold(undefined)).toBe('-');
+    });
+
+    it('should describe measured values', () => {
+      const engine = new RulesEngine(loadRulesConfig());
+      const [lcp] = engine.evaluateCategory('speed', { lighthouse: { LCP: 2.34567 } }).outcomes;
+      const ai = engine.evaluateCategory('bi', {}, 5).outcomes.find(o => o.ruleId === 'typographyHierarchy')!;
+
+      expect(formatMeasuredValue(lcp)).toBe('2.346');
+      expect(formatMeasuredValue(ai)).toBe('AI 평가');
+    });
+  });
+});
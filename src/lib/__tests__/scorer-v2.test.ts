@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { ScorerV2 } from '../scorer-v2.js';
 import { LLMGraderOutput } from '../../types/index.js';
+import { ValidationError } from '../errors.js';
 
 describe('ScorerV2', () => {
   let scorer: ScorerV2;
@@ -55,7 +56,7 @@ describe('ScorerV2', () => {
       expect(result.categoryScores).toBeDefined();
       expect(result.scoreSources).toBeDefined();
       expect(result.scoreSources.speed).toBe('rule');
-      expect(result.scoreSources.bi).toBe('ai');
+      expect(result.scoreSources.bi).toBe('hybrid');
       expect(result.scoreSources.firstView).toBe('hybrid');
     });
 
@@ -152,8 +153,8 @@ describe('ScorerV2', () => {
       };
 
       const result = scorer.calculateScores(llmOutput, measuredData);
-      // 10 - 3(LCP>4) - 2(CLS>0.1) - 2(TBT>300) - 1(FCP>3) - 2(errors>0) = 0
-      expect(result.categoryScores.speed).toBe(0);
+      // rules.yaml: LCP>4.0 → 1점, CLS/TBT/errors 초과 → 0점 = 1점
+      expect(result.categoryScores.speed).toBe(1);
     });
   });
 
@@ -187,11 +188,12 @@ describe('ScorerV2', () => {
           minFontSize: 16, 
           minTouchTarget: 48, 
           hasOverflow: false 
-        }
+        },
+        accessibility: { seriousViolations: 0 }
       };
 
       const result = scorer.calculateScores(llmOutput, measuredData);
-      expect(result.categoryScores.mobile).toBe(10); // 2+3+3+2 = 10
+      expect(result.categoryScores.mobile).toBe(10); // 2+3+3+2+3 = 13/13
       expect(result.scoreSources.mobile).toBe('rule');
     });
   });
@@ -221,13 +223,123 @@ describe('ScorerV2', () => {
       };
 
       const measuredData = {
-        html: { minFontSize: 18 } // Rule gives +3 points
+        cv: { minFontSize: 18, ctaAboveFoldSize: 48 } // fontMinPx 2 points, ctaVisible 5 points
       };
 
       const result = scorer.calculateScores(llmOutput, measuredData);
-      // AI part: 8 * 0.7 = 5.6, Rule part: 3, Total: 8.6 rounded = 9
+      // AI rule (heroPromo 3) * 0.8 = 2.4, Rule part: 2 + 5, Total: 9.4 rounded = 9
       expect(result.categoryScores.firstView).toBe(9);
       expect(result.scoreSources.firstView).toBe('hybrid');
     });
   });
-});
\ No newline at end of file
+
+  describe('Rule outcomes', () => {
+    it('should report which rule awarded which points', () => {
+      const llmOutput: LLMGraderOutput = {
+        url: 'https://example.com',
+        scores: {
+          speed: { id: 'speed', score: 0, insights: [] },
+          firstView: { id: 'firstView', score: 0, insights: [] },
+          bi: { id: 'bi', score: 0, insights: [] },
+          navigation: { id: 'navigation', score: 0, insights: [] },
+          uspPromo: { id: 'uspPromo', score: 0, insights: [] },
+          visuals: { id: 'visuals', score: 0, insights: [] },
+          trust: { id: 'trust', score: 0, insights: [] },
+          mobile: { id: 'mobile', score: 0, insights: [] },
+          purchaseFlow: { 
+            id: 'purchaseFlow', 
+            score: 0, 
+            ok: false,
+            steps: [],
+            insights: [] 
+          },
+          seoAnalytics: { id: 'seoAnalytics', score: 0, insights: [] }
+        }
+      };
+
+      const measuredData = {
+        lighthouse: { LCP: 3.0, CLS: 0.2, TBT: 100, errors: 0 }
+      };
+
+      const result = scorer.calculateScores(llmOutput, measuredData);
+      const lcp = result.ruleOutcomes.speed.find(o => o.ruleId === 'lcp');
+      const cls = result.ruleOutcomes.speed.find(o => o.ruleId === 'cls');
+
+      expect(lcp).toMatchObject({ pointsPossible: 4, pointsAwarded: 3, measuredValue: 3.0, measured: true });
+      expect(lcp?.threshold).toEqual({ thresholds: [2.5, 4.0] });
+      expect(cls).toMatchObject({ pointsPossible: 2, pointsAwarded: 0, threshold: { max: 0.1 } });
+    });
+
+    it('should give unmeasured rules the default ratio', () => {
+      const llmOutput: LLMGraderOutput = {
+        url: 'https://example.com',
+        scores: {
+          speed: { id: 'speed', score: 0, insights: [] },
+          firstView: { id: 'firstView', score: 0, insights: [] },
+          bi: { id: 'bi', score: 0, insights: [] },
+          navigation: { id: 'navigation', score: 0, insights: [] },
+          uspPromo: { id: 'uspPromo', score: 0, insights: [] },
+          visuals: { id: 'visuals', score: 0, insights: [] },
+          trust: { id: 'trust', score: 0, insights: [] },
+          mobile: { id: 'mobile', score: 0, insights: [] },
+          purchaseFlow: { 
+            id: 'purchaseFlow', 
+            score: 0, 
+            ok: false,
+            steps: [],
+            insights: [] 
+          },
+          seoAnalytics: { id: 'seoAnalytics', score: 0, insights: [] }
+        }
+      };
+
+      const result = scorer.calculateScores(llmOutput, {});
+      const viewport = result.ruleOutcomes.mobile.find(o => o.ruleId === 'viewportMeta');
+
+      expect(viewport).toMatchObject({ measured: false, pointsAwarded: 1 });
+      expect(result.categoryScores.mobile).toBe(5);
+    });
+  });
+
+  describe('Custom weights', () => {
+    const llmOutput = {
+      url: 'https://example.com',
+      scores: Object.fromEntries(
+        ['speed', 'firstView', 'bi', 'navigation', 'uspPromo', 'visuals', 'trust', 'mobile', 'purchaseFlow', 'seoAnalytics']
+          .map(id => [id, { id, score: 10, insights: [] }])
+      )
+    } as unknown as LLMGraderOutput;
+    const perfectMobile = {
+      cv: { hasViewport: true, minFontSize: 16, minTouchTarget: 48, hasOverflow: false },
+      accessibility: { seriousViolations: 0 }
+    };
+
+    it('should keep totals normalized to 100 and report applied weights', () => {
+      const result = scorer.calculateScores(llmOutput, perfectMobile, { mobile: 2, seoAnalytics: 0.5 });
+      const weightTotal = Object.values(result.appliedWeights).reduce((sum, w) => sum + w, 0);
+
+      expect(result.totalScore).toBeLessThanOrEqual(100);
+      expect(weightTotal).toBeCloseTo(100, 0);
+      expect(result.appliedWeights.mobile).toBeCloseTo(result.appliedWeights.speed * 2, 1);
+      expect(result.appliedWeights.seoAnalytics).toBeCloseTo(result.appliedWeights.trust * 0.5, 1);
+    });
+
+    it('should shift the total toward heavily weighted categories', () => {
+      const base = scorer.calculateScores(llmOutput, perfectMobile);
+      const mobileOnly = scorer.calculateScores(llmOutput, perfectMobile, {
+        speed: 0, firstView: 0, bi: 0, navigation: 0, uspPromo: 0,
+        visuals: 0, trust: 0, purchaseFlow: 0, seoAnalytics: 0
+      });
+
+      expect(mobileOnly.totalScore).toBe(100);
+      expect(mobileOnly.appliedWeights.mobile).toBe(100);
+      expect(base.totalScore).toBeLessThan(100);
+    });
+
+    it('should reject weights that zero out every category', () => {
+      const zero = Object.fromEntries(Object.keys(llmOutput.scores).map(id => [id, 0]));
+
+      expect(() => scorer.calculateScores(llmOutput, {}, zero)).toThrow(ValidationError);
+    });
+  });
+});
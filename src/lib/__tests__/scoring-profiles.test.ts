@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { loadScoringProfiles, getScoringProfile, detectVerticalProfile, ScoringProfile } from '../scoring-profiles.js';
+import { DEFAULT_RULES_PATH, loadRulesConfig } from '../rules-engine.js';
+import { NotFoundError, ValidationError } from '../errors.js';
+import { createScorerV2 } from '../scorer-v2.js';
+
+function writeProfiles(files: Record<string, string>): string {
+  const dir = mkdtempSync(join(tmpdir(), 'scoring-profiles-'));
+  for (const [name, content] of Object.entries(files)) {
+    writeFileSync(join(dir, name), content);
+  }
+  return dir;
+}
+
+const DEFAULT_KEY = `default@${loadRulesConfig().profile.version}`;
+
+describe('Scoring profiles', () => {
+  it('should register rules.yaml as default and bundled profiles', () => {
+    const profiles = loadScoringProfiles();
+
+    expect(profiles.get(DEFAULT_KEY)?.config.speed.weight).toBe(10);
+    expect(profiles.get('conversion-focus@1')?.config.purchaseFlow.weight).toBe(15);
+  });
+
+  it('should merge overrides onto the extended profile', () => {
+    const dir = writeProfiles({
+      'strict.yaml': [
+        'profile: { name: strict, version: 2 }',
+        `extends: ${DEFAULT_KEY}`,
+        'speed:',
+        '  rules:',
+        '    lcp: { thresholds: [2.0, 3.0] }'
+      ].join('\n')
+    });
+
+    const strict = loadScoringProfiles(DEFAULT_RULES_PATH, dir).get('strict@2');
+
+    expect(strict?.config.speed.rules.lcp.thresholds).toEqual([2.0, 3.0]);
+    expect(strict?.config.speed.rules.lcp.points).toEqual([4, 3, 1]);
+    expect(strict?.config.speed.rules.cls.max).toBe(0.1);
+  });
+
+  it('should validate merged profiles and unknown extends', () => {
+    const invalid = writeProfiles({
+      'broken.yaml': `profile: { name: broken, version: 1 }\nextends: ${DEFAULT_KEY}\nspeed: { weight: -1 }`
+    });
+    const orphan = writeProfiles({
+      'orphan.yaml': 'profile: { name: orphan, version: 1 }\nextends: missing@1'
+    });
+
+    expect(() => loadScoringProfiles(DEFAULT_RULES_PATH, invalid)).toThrow(ValidationError);
+    expect(() => loadScoringProfiles(DEFAULT_RULES_PATH, orphan)).toThrow(/unknown profile|Invalid scoring profile/);
+  });
+
+  it('should require extends to pin a profile version', () => {
+    for (const ref of [undefined, 'default']) {
+      const dir = writeProfiles({
+        'floating.yaml': `profile: { name: floating, version: 1 }\n${ref ? `extends: ${ref}` : ''}`
+      });
+
+      expect(() => loadScoringProfiles(DEFAULT_RULES_PATH, dir)).toThrow(ValidationError);
+    }
+  });
+
+  it('should keep archived versions loadable with the rules they were recorded with', () => {
+    const profiles = loadScoringProfiles();
+
+    // default@1부터 현재까지 빠진 버전 없이 등록
+    const defaults = Array.from(profiles.values()).filter(p => p.name === 'default').map(p => p.version).sort((a, b) => a - b);
+    expect(defaults).toEqual(Array.from({ length: defaults.length }, (_, i) => i + 1));
+
+    expect(profiles.get('default@1')?.config.seoAnalytics.rules.structuredData).toBeUndefined();
+    expect(createScorerV2('default@1').calculateScores({ url: 'https://example.com', scores: {} } as any, {}).profile).toBe('default@1');
+  });
+
+  it('should build the latest version of every derived profile on the current default', () => {
+    const latest = new Map<string, ScoringProfile>();
+    for (const profile of loadScoringProfiles().values()) {
+      if (profile.name !== 'default' && (latest.get(profile.name)?.version ?? 0) < profile.version) {
+        latest.set(profile.name, profile);
+      }
+    }
+
+    // rules.yaml 버전을 올리면 변형 프로파일도 이전 버전을 보관하고 버전을 올려야 함
+    for (const profile of latest.values()) {
+      expect(profile.extends, profile.key).toBe(DEFAULT_KEY);
+    }
+  });
+
+  it('should resolve profile references', () => {
+    expect(getScoringProfile().key).toBe(DEFAULT_KEY);
+    expect(getScoringProfile('conversion-focus').key).toBe('conversion-focus@1');
+    expect(() => getScoringProfile('nope')).toThrow(NotFoundError);
+  });
+
+  it('should record the profile key in score results', () => {
+    const llmOutput: any = { url: 'https://example.com', scores: {} };
+    const result = createScorerV2('conversion-focus').calculateScores(llmOutput, {});
+
+    expect(result.profile).toBe('conversion-focus@1');
+  });
+
+  describe('Industry verticals', () => {
+    it('should bundle a profile per vertical with its own thresholds and keywords', () => {
+      const fashion = getScoringProfile('fashion');
+      const food = getScoringProfile('food');
+
+      expect(fashion.config.profile.vertical).toBe('fashion');
+      expect(fashion.config.navigation.rules.menuCount).toMatchObject({ min: 3, max: 12 });
+      expect(food.config.trust.weight).toBe(14);
+      expect(food.config.keywords?.trust).toContain('원산지');
+      expect(getScoringProfile('beauty').config.keywords?.category).toContain('랭킹');
+      expect(getScoringProfile('electronics').config.speed.weight).toBe(12);
+    });
+
+    it('should detect the vertical from visible page text', () => {
+      const html = `<html><head><title>뷰티몰</title><script>var x = "노트북 모니터 태블릿";</script></head>
+        <body><nav>스킨케어 메이크업 선크림</nav><p>세럼 1+1</p></body></html>`;
+
+      expect(detectVerticalProfile(html)?.name).toBe('beauty');
+    });
+
+    it('should not guess a vertical from too few signals', () => {
+      expect(detectVerticalProfile('<html><body>노트북 할인</body></html>')).toBeUndefined();
+    });
+  });
+});
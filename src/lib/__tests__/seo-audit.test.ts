@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeStructuredData, auditCrawlFiles, parseRobotsTxt, summarizeSeoAudit } from '../seo-audit.js';
+
+const jsonLd = (data: unknown) => `<script type="application/ld+json">${JSON.stringify(data)}</script>`;
+
+describe('SEO audit', () => {
+  describe('analyzeStructuredData', () => {
+    it('should validate JSON-LD items including @graph', () => {
+      const html = jsonLd({
+        '@context': 'https://schema.org',
+        '@graph': [
+          { '@type': 'OnlineStore', name: '테스트몰', url: 'https://shop.example.com' },
+          { '@type': 'WebSite', name: '테스트몰' }
+        ]
+      }) + jsonLd({
+        '@type': 'Product',
+        name: '수분 크림',
+        image: ['/cream.jpg'],
+        offers: { '@type': 'AggregateOffer', lowPrice: 19000 }
+      }) + '<script type="application/ld+json">{ broken</script>';
+
+      expect(analyzeStructuredData(html)).toEqual([
+        { type: 'OnlineStore', format: 'json-ld', validated: true, valid: true, missing: [] },
+        { type: 'WebSite', format: 'json-ld', validated: false, valid: true, missing: [] },
+        { type: 'Product', format: 'json-ld', validated: true, valid: false, missing: ['offers.priceCurrency'] },
+        { type: 'unknown', format: 'json-ld', validated: false, valid: false, missing: [], error: 'invalid JSON' }
+      ]);
+    });
+
+    it('should read nested microdata', () => {
+      const html = `
+        <div itemscope itemtype="https://schema.org/Product">
+          <h1 itemprop="name">수분 크림</h1>
+          <img itemprop="image" src="/cream.jpg">
+          <div itemprop="offers" itemscope itemtype="https://schema.org/Offer">
+            <span itemprop="price" content="19000">19,000원</span>
+            <meta itemprop="priceCurrency" content="KRW">
+            <span itemprop="name">정가</span>
+          </div>
+        </div>
+        <ol itemscope itemtype="https://schema.org/BreadcrumbList">
+          <li itemprop="itemListElement" itemscope itemtype="https://schema.org/ListItem">
+            <a itemprop="item" href="/skin"><span itemprop="name">스킨케어</span></a>
+          </li>
+        </ol>`;
+
+      expect(analyzeStructuredData(html)).toEqual([
+        { type: 'Product', format: 'microdata', validated: true, valid: true, missing: [] },
+        { type: 'BreadcrumbList', format: 'microdata', validated: true, valid: false, missing: ['itemListElement.position'] }
+      ]);
+    });
+  });
+
+  describe('parseRobotsTxt', () => {
+    it('should detect a site-wide block only in the * group', () => {
+      const robots = parseRobotsTxt([
+        'User-agent: Googlebot',
+        'Disallow: /',
+        '',
+        'User-agent: *',
+        'Disallow: /member/ # 회원 페이지',
+        'Sitemap: https://shop.example.com/sitemap.xml'
+      ].join('\n'));
+
+      expect(robots).toEqual({ disallowsAll: false, sitemaps: ['https://shop.example.com/sitemap.xml'] });
+      expect(parseRobotsTxt('User-agent: *\nDisallow: /').disallowsAll).toBe(true);
+    });
+  });
+
+  describe('auditCrawlFiles', () => {
+    it('should follow the sitemap listed in robots.txt', async () => {
+      const requested: string[] = [];
+      const fetchImpl = (async (target: string) => {
+        requested.push(target);
+        if (target.endsWith('/robots.txt')) {
+          return new Response('User-agent: *\nAllow: /\nSitemap: https://shop.example.com/sitemap_index.xml');
+        }
+        return new Response('<?xml version="1.0"?><sitemapindex><sitemap><loc>a</loc></sitemap><sitemap><loc>b</loc></sitemap></sitemapindex>');
+      }) as typeof fetch;
+
+      const result = await auditCrawlFiles('https://shop.example.com/main', fetchImpl);
+
+      expect(requested).toEqual(['https://shop.example.com/robots.txt', 'https://shop.example.com/sitemap_index.xml']);
+      expect(result.robots).toEqual({ found: true, disallowsAll: false, sitemaps: ['https://shop.example.com/sitemap_index.xml'] });
+      expect(result.sitemap).toEqual({ found: true, url: 'https://shop.example.com/sitemap_index.xml', urlCount: 2 });
+    });
+
+    it('should record missing files and leave network failures unmeasured', async () => {
+      const notFound = (async () => new Response('Not Found', { status: 404 })) as typeof fetch;
+      const offline = (async () => { throw new TypeError('fetch failed'); }) as typeof fetch;
+
+      const missing = await auditCrawlFiles('https://shop.example.com', notFound);
+      const failed = await auditCrawlFiles('https://shop.example.com', offline);
+
+      expect(summarizeSeoAudit(missing)).toEqual({ validStructuredData: undefined, robotsTxt: false, sitemap: false });
+      expect(summarizeSeoAudit(failed)).toEqual({ validStructuredData: undefined, robotsTxt: undefined, sitemap: undefined });
+    });
+  });
+
+  it('should count each valid schema type once', () => {
+    const summary = summarizeSeoAudit({
+      structuredData: [
+        { type: 'Product', format: 'json-ld', validated: true, valid: true, missing: [] },
+        { type: 'Product', format: 'microdata', validated: true, valid: true, missing: [] },
+        { type: 'WebSite', format: 'json-ld', validated: false, valid: true, missing: [] },
+        { type: 'BreadcrumbList', format: 'json-ld', validated: true, valid: false, missing: ['itemListElement.position'] }
+      ]
+    });
+
+    expect(summary.validStructuredData).toBe(1);
+  });
+});
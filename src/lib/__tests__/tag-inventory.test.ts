@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { buildTagInventory, NetworkRequestRecord } from '../tag-inventory.js';
+
+const request = (url: string, overrides: Partial<NetworkRequestRecord> = {}): NetworkRequestRecord => ({
+  url,
+  resourceType: 'image',
+  onLoad: true,
+  ...overrides
+});
+
+describe('Tag inventory', () => {
+  it('should classify tags and read events from query and batched POST bodies', () => {
+    const inventory = buildTagInventory([
+      request('https://shop.example.com/', { resourceType: 'document' }),
+      request('https://www.googletagmanager.com/gtm.js?id=GTM-ABC123', { resourceType: 'script' }),
+      request('https://www.googletagmanager.com/gtag/js?id=G-XYZ789&l=dataLayer', { resourceType: 'script' }),
+      request('https://region1.google-analytics.com/g/collect?v=2&tid=G-XYZ789&_p=1', {
+        resourceType: 'ping',
+        postData: 'en=page_view&_et=1\nen=view_item_list&_et=2'
+      }),
+      request('https://connect.facebook.net/en_US/fbevents.js', { resourceType: 'script' }),
+      request('https://www.facebook.com/tr/?id=1234567890&ev=AddToCart', { onLoad: false }),
+      request('https://wcs.naver.net/wcslog.js', { resourceType: 'script' })
+    ], `<script>fbq('track', 'ViewContent'); gtag('event', 'purchase', {});</script>`);
+
+    expect(inventory.tags.map(tag => tag.vendor)).toEqual(['gtm', 'ga4', 'metaPixel', 'naverAnalytics']);
+
+    const [gtm, ga4, meta, naver] = inventory.tags;
+    expect(gtm).toMatchObject({ accountIds: ['GTM-ABC123'], firedOnLoad: true, hits: 0 });
+    expect(ga4).toMatchObject({
+      accountIds: ['G-XYZ789'],
+      firedOnLoad: true,
+      events: ['page_view', 'view_item_list'],
+      missingEcommerceEvents: ['view_item', 'add_to_cart', 'begin_checkout']
+    });
+    // 액션/스크롤 뒤에만 전송된 픽셀은 로드 시 전송으로 보지 않음
+    expect(meta).toMatchObject({ accountIds: ['1234567890'], firedOnLoad: false, missingEcommerceEvents: ['InitiateCheckout', 'Purchase'] });
+    expect(naver).toMatchObject({ scriptLoaded: true, firedOnLoad: false });
+
+    expect(inventory.requestCount).toBe(7);
+    expect(inventory.firingCount).toBe(1);
+    expect(inventory.duplicateCount).toBe(0);
+  });
+
+  it('should report scripts loaded twice and repeated page views on load', () => {
+    const inventory = buildTagInventory([
+      request('https://connect.facebook.net/en_US/fbevents.js', { resourceType: 'script' }),
+      request('https://connect.facebook.net/en_US/fbevents.js', { resourceType: 'script' }),
+      request('https://www.facebook.com/tr/?id=111&ev=PageView'),
+      request('https://www.facebook.com/tr/?id=111&ev=PageView'),
+      request('https://www.facebook.com/tr/?id=222&ev=PageView'),
+      // 스크롤 후 다시 보낸 페이지뷰는 중복으로 세지 않음
+      request('https://www.facebook.com/tr/?id=222&ev=PageView', { onLoad: false })
+    ]);
+
+    expect(inventory.tags[0].duplicates).toEqual(['fbevents.js 스크립트 2회 로드', '111 PageView 2회']);
+    expect(inventory.tags[0].hits).toBe(4);
+    expect(inventory.duplicateCount).toBe(2);
+  });
+
+  it('should return an empty inventory when no known tag is requested', () => {
+    expect(buildTagInventory([request('https://cdn.example.com/app.js', { resourceType: 'script' })])).toEqual({
+      tags: [],
+      requestCount: 1,
+      firingCount: 0,
+      duplicateCount: 0
+    });
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { detectTrustSignals, summarizeTrustSignals } from '../trust-signals.js';
+
+describe('Trust signals', () => {
+  it('should find each signal with the place it was first seen', () => {
+    const signals = detectTrustSignals(`
+      <html><head>
+        <script src="https://js.tosspayments.com/v1/payment"></script>
+        <script src="https://widgets.cre.ma/shop.example.com/init.js"></script>
+      </head><body>
+        <a href="/member/login.html?returnUrl=/order">로그인</a>
+        <a href="/board/faq">교환/반품 안내</a>
+        <div class="footer-wrap">
+          <p>상호: 샘플몰 | 사업자등록번호 : 123-45-67890 | 통신판매업신고 제2024-서울강남-01234호</p>
+          <img src="/escrow.png" alt="KB 에스크로 이체">
+          <img src="/npay.png" alt="네이버페이">
+        </div>
+      </body></html>`);
+
+    expect(signals).toEqual([
+      { type: 'payment', name: 'tosspayments', source: 'script', evidence: 'https://js.tosspayments.com/v1/payment' },
+      { type: 'payment', name: 'naverpay', source: 'alt', evidence: '네이버페이' },
+      { type: 'businessRegistration', name: '사업자등록번호', source: 'footer', evidence: '상호: 샘플몰 | 사업자등록번호 : 123-45-67890 | 통신판매업신고 제2024-서울강남-01234호' },
+      { type: 'mailOrderRegistration', name: '통신판매업 신고번호', source: 'footer', evidence: '상호: 샘플몰 | 사업자등록번호 : 123-45-67890 | 통신판매업신고 제2024-서울강남-01234호' },
+      { type: 'escrow', name: '에스크로', source: 'alt', evidence: 'KB 에스크로 이체' },
+      { type: 'returnPolicy', name: '교환/반품 안내', source: 'link', evidence: '교환/반품 안내 /board/faq' },
+      { type: 'reviewWidget', name: '크리마', source: 'script', evidence: 'https://widgets.cre.ma/shop.example.com/init.js' }
+    ]);
+
+    expect(summarizeTrustSignals(signals)).toEqual({
+      paymentProviders: ['tosspayments', 'naverpay'],
+      businessInfo: 2,
+      escrow: true,
+      returnPolicy: true,
+      reviewWidget: true
+    });
+  });
+
+  it('should not count a registration label without a number or script text as page text', () => {
+    const signals = detectTrustSignals(`
+      <body>
+        <footer><a href="https://www.ftc.go.kr/bizCommPop.do">사업자정보확인</a> 사업자등록번호 확인</footer>
+        <script>var pg = "kakaopay";</script>
+      </body>`);
+
+    expect(signals).toEqual([
+      { type: 'payment', name: 'kakaopay', source: 'script', evidence: 'var pg = "kakaopay";' }
+    ]);
+    expect(summarizeTrustSignals(signals).businessInfo).toBe(0);
+  });
+
+  it('should excerpt long text around the match', () => {
+    const [signal] = detectTrustSignals(`<body><p>${'안내 '.repeat(60)}고객님은 구매안전서비스를 이용하실 수 있습니다</p></body>`);
+
+    expect(signal.type).toBe('escrow');
+    expect(signal.source).toBe('text');
+    expect(signal.evidence.length).toBeLessThanOrEqual(80);
+    expect(signal.evidence).toContain('구매안전서비스');
+  });
+});
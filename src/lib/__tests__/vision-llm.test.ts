@@ -1,5 +1,6 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { VisionLLMGrader } from '../vision-llm.js';
+import { LLMProvider } from '../llm-providers.js';
 import { LLMGraderInput } from '../../types/index.js';
 
 describe('VisionLLMGrader', () => {
@@ -104,12 +105,16 @@ describe('VisionLLMGrader', () => {
     });
   });
 
-  describe('buildSystemPrompt', () => {
+  describe('renderPrompt (system)', () => {
     it('should include evaluation principles', () => {
-      // Access private method through reflection for testing
-      const prompt = (grader as any).buildSystemPrompt();
+      const { systemPrompt: prompt } = grader.renderPrompt({
+        url: 'https://example.com',
+        html: '<html>Test</html>',
+        screenshots: { firstView: 'test.png' }
+      });
       
-      expect(prompt).toContain('전자상거래');
+      expect(prompt).toContain('이커머스');
+      expect(prompt).toContain('평가 원칙');
       expect(prompt).toContain('10개 항목');
       expect(prompt).toContain('증거');
       expect(prompt).toContain('bbox');
@@ -117,7 +122,7 @@ describe('VisionLLMGrader', () => {
     });
   });
 
-  describe('buildUserPrompt', () => {
+  describe('renderPrompt (user)', () => {
     it('should include Korean keywords', () => {
       const input: LLMGraderInput = {
         url: 'https://example.com',
@@ -126,7 +131,7 @@ describe('VisionLLMGrader', () => {
         screenshots: { firstView: 'test.png' }
       };
 
-      const prompt = (grader as any).buildUserPrompt(input);
+      const { userPrompt: prompt } = grader.renderPrompt(input);
       
       expect(prompt).toContain('구매');
       expect(prompt).toContain('무료배송');
@@ -134,6 +139,23 @@ describe('VisionLLMGrader', () => {
       expect(prompt).toContain('cafe24');
     });
 
+    it('should replace keyword groups for the audited vertical', () => {
+      const input: LLMGraderInput = {
+        url: 'https://example.com',
+        vertical: 'food',
+        keywords: { usp: ['새벽배송', '산지직송'] },
+        html: '<html>Test</html>',
+        screenshots: { firstView: 'test.png' }
+      };
+
+      const { userPrompt: prompt } = grader.renderPrompt(input);
+      
+      expect(prompt).toContain('업종: 식품');
+      expect(prompt).toContain('산지직송');
+      expect(prompt).not.toContain('정품보증');
+      expect(prompt).toContain('베스트');
+    });
+
     it('should include scoring criteria', () => {
       const input: LLMGraderInput = {
         url: 'https://example.com',
@@ -141,7 +163,7 @@ describe('VisionLLMGrader', () => {
         screenshots: { firstView: 'test.png' }
       };
 
-      const prompt = (grader as any).buildUserPrompt(input);
+      const { userPrompt: prompt } = grader.renderPrompt(input);
       
       expect(prompt).toContain('LCP');
       expect(prompt).toContain('CLS');
@@ -150,6 +172,19 @@ describe('VisionLLMGrader', () => {
       expect(prompt).toContain('alt');
     });
 
+    it('should leave template syntax in page HTML untouched', () => {
+      const input: LLMGraderInput = {
+        url: 'https://example.com',
+        html: '<div id="app">{{url}} {{#verticalName}}</div>',
+        screenshots: { firstView: 'test.png' }
+      };
+
+      const { template, userPrompt: prompt } = grader.renderPrompt(input);
+
+      expect(template).toBe('grader@3');
+      expect(prompt).toContain('div#app: {{url}} {{#verticalName}}');
+    });
+
     it('should truncate long HTML', () => {
       const longHtml = '<html>' + 'x'.repeat(100000) + '</html>';
       const input: LLMGraderInput = {
@@ -158,13 +193,71 @@ describe('VisionLLMGrader', () => {
         screenshots: { firstView: 'test.png' }
       };
 
-      const prompt = (grader as any).buildUserPrompt(input);
+      const { userPrompt: prompt } = grader.renderPrompt(input);
       
       expect(prompt.length).toBeLessThan(longHtml.length);
       expect(prompt).toContain('html');
     });
   });
 
+  describe('grade', () => {
+    const input: LLMGraderInput = {
+      url: 'https://example.com',
+      html: '<html></html>',
+      screenshots: { firstView: 'data:image/png;base64,AAAA' }
+    };
+
+    function providerReturning(content: string): LLMProvider {
+      return {
+        name: 'anthropic',
+        model: 'claude-test',
+        complete: async () => ({ content, model: 'claude-test-1', promptTokens: 10, completionTokens: 5, totalTokens: 15 })
+      };
+    }
+
+    it('should validate provider output and record metadata', async () => {
+      const mock = await grader.gradeMock(input);
+      const fenced = '```json\n' + JSON.stringify(mock) + '\n```';
+
+      const result = await new VisionLLMGrader(providerReturning(fenced)).grade(input);
+
+      expect(result.scores.bi.score).toBe(mock.scores.bi.score);
+      expect(result.metadata).toMatchObject({ provider: 'anthropic', modelRequested: 'claude-test', modelUsed: 'claude-test-1', tokensUsed: 15 });
+    });
+
+    it('should attach labeled images in order and list them in the prompt', async () => {
+      const mock = await grader.gradeMock(input);
+      const complete = vi.fn().mockResolvedValue({ content: JSON.stringify(mock), model: 'claude-test-1', promptTokens: 10, completionTokens: 5, totalTokens: 15 });
+      const images = [
+        { id: 'firstView', label: '퍼스트뷰 (페이지 y 0-812px)', image: 'data:image/jpeg;base64,AAAA' },
+        { id: 'footer', label: '페이지 하단 (푸터) (페이지 y 2188-3000px)', image: 'data:image/jpeg;base64,BBBB' },
+        { id: 'cart', label: '장바구니 페이지 첫 화면', image: 'data:image/png;base64,CCCC' }
+      ];
+
+      await new VisionLLMGrader({ name: 'openai', model: 'gpt-5', complete }).grade({
+        ...input,
+        screenshots: { ...input.screenshots, images }
+      });
+
+      const request = complete.mock.calls[0][0];
+      expect(request.images).toEqual(images);
+      expect(request.userPrompt).toContain('스크린샷: 3장 첨부');
+      expect(request.userPrompt).toContain('- [footer] 페이지 하단 (푸터) (페이지 y 2188-3000px)\n- [cart] 장바구니 페이지 첫 화면');
+    });
+
+    it('should fall back to the first view screenshot', () => {
+      expect((grader as any).selectImages(input)).toEqual([
+        { id: 'firstView', label: '퍼스트뷰', image: 'data:image/png;base64,AAAA' }
+      ]);
+    });
+
+    it('should reject output that does not match the schema', async () => {
+      const broken = new VisionLLMGrader(providerReturning('{"url": "https://example.com", "scores": {}}'), 1);
+
+      await expect(broken.grade(input)).rejects.toThrow();
+    });
+  });
+
   describe('validateEvidence', () => {
     it('should set score to 0 if no evidence', () => {
       const output = {
@@ -0,0 +1,77 @@
+import type axe from 'axe-core';
+import { AccessibilityImpact, AccessibilityMetrics } from '../types/domain.types.js';
+
+// 검사할 규칙 - WCAG 2.0/2.1 A, AA
+export const AXE_RUN_OPTIONS: axe.RunOptions = {
+  runOnly: { type: 'tag', values: ['wcag2a', 'wcag2aa', 'wcag21a', 'wcag21aa'] },
+  resultTypes: ['violations']
+};
+
+/**
+ * 페이지에서 실행한 axe-core 결과 중 리포트에 필요한 부분
+ * (셀렉터는 문자열로 펼치고 첫 위반 요소 위치를 함께 기록)
+ */
+export interface AxeAuditResult {
+  passes: number; // 통과한 규칙 수
+  violations: Array<{
+    id: string;
+    impact: string | null;
+    description: string;
+    help: string;
+    helpUrl: string;
+    nodes: number;
+    targets: string[];
+    rect?: { x: number; y: number; width: number; height: number }; // 페이지 기준 CSS px
+  }>;
+}
+
+const IMPACT_ORDER: AccessibilityImpact[] = ['critical', 'serious', 'moderate', 'minor'];
+const MAX_TARGETS = 5;
+
+/**
+ * axe-core 결과 요약 - 영향도 높은 순, 같으면 위반 요소가 많은 순
+ * 점수는 검사한 규칙 중 통과한 비율 (위반 요소 수와 무관)
+ */
+export function summarizeAccessibility(result: AxeAuditResult): AccessibilityMetrics {
+  const violations = result.violations
+    .map(violation => ({
+      id: violation.id,
+      impact: (IMPACT_ORDER as string[]).includes(violation.impact ?? '') ? violation.impact as AccessibilityImpact : 'minor',
+      description: violation.description,
+      help: violation.help,
+      helpUrl: violation.helpUrl,
+      nodes: violation.nodes,
+      targets: violation.targets.slice(0, MAX_TARGETS),
+      bbox: violation.rect
+        ? [violation.rect.x, violation.rect.y, violation.rect.width, violation.rect.height] as [number, number, number, number]
+        : undefined
+    }))
+    .sort((a, b) => IMPACT_ORDER.indexOf(a.impact) - IMPACT_ORDER.indexOf(b.impact) || b.nodes - a.nodes);
+
+  const violationsByImpact = Object.fromEntries(
+    IMPACT_ORDER.map(impact => [impact, violations.filter(v => v.impact === impact).length])
+  ) as Record<AccessibilityImpact, number>;
+  const checked = result.passes + violations.length;
+
+  return {
+    score: checked > 0 ? Math.round((result.passes / checked) * 100) : 100,
+    violationsByImpact,
+    seriousViolations: violationsByImpact.critical + violationsByImpact.serious,
+    violations
+  };
+}
+
+const IMPACT_LABELS: Record<AccessibilityImpact, string> = {
+  critical: '치명',
+  serious: '심각',
+  moderate: '보통',
+  minor: '경미'
+};
+
+/**
+ * 리포트용 위반 요약 한 줄 (HTML 이스케이프) - 예: "심각 · Images must have alternate text · 요소 3개"
+ */
+export function formatAccessibilityViolation(violation: AccessibilityMetrics['violations'][number]): string {
+  const text = `${IMPACT_LABELS[violation.impact]} · ${violation.help || violation.description} · 요소 ${violation.nodes}개`;
+  return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
@@ -0,0 +1,76 @@
+import { ConfidenceFactors, RuleOutcome } from '../types/index.js';
+
+// 신뢰도 등급 경계
+const HIGH_CONFIDENCE = 0.75;
+const LOW_CONFIDENCE = 0.5;
+
+/**
+ * 카테고리 점수 신뢰도
+ */
+export interface ConfidenceAssessment {
+  confidence: number;
+  confidenceLevel: 'high' | 'medium' | 'low';
+  confidenceFactors: ConfidenceFactors;
+}
+
+/**
+ * 신뢰도 계산 - 측정된 규칙 배점은 그대로 신뢰하고,
+ * AI 배점은 근거 완결성과 LLM 자기 평가의 평균만큼 신뢰
+ * 측정값이 없어 기본 배점을 받은 규칙은 신뢰도에 기여하지 않음
+ */
+export function assessConfidence(
+  outcomes: RuleOutcome[],
+  evidence?: Record<string, any>,
+  llmConfidence?: number
+): ConfidenceAssessment {
+  const totalPoints = outcomes.reduce((sum, o) => sum + o.pointsPossible, 0);
+  const measuredPoints = outcomes
+    .filter(o => o.source === 'rule' && o.measured)
+    .reduce((sum, o) => sum + o.pointsPossible, 0);
+  const aiOutcomes = outcomes.filter(o => o.source === 'ai');
+  const aiPoints = aiOutcomes.reduce((sum, o) => sum + o.pointsPossible, 0);
+
+  const ruleCoverage = totalPoints > 0 ? measuredPoints / totalPoints : 0;
+  const evidenceScore = aiOutcomes.length > 0
+    ? Math.min(1, countAnchoredEvidence(evidence) / aiOutcomes.length)
+    : 1;
+  const aiConfidence = llmConfidence !== undefined ? (evidenceScore + llmConfidence) / 2 : evidenceScore;
+
+  const confidence = totalPoints > 0
+    ? round(ruleCoverage + (aiPoints / totalPoints) * aiConfidence)
+    : 0;
+
+  return {
+    confidence,
+    confidenceLevel: confidence >= HIGH_CONFIDENCE ? 'high' : confidence >= LOW_CONFIDENCE ? 'medium' : 'low',
+    confidenceFactors: {
+      evidence: round(evidenceScore),
+      llm: llmConfidence,
+      ruleCoverage: round(ruleCoverage)
+    }
+  };
+}
+
+/**
+ * bbox/selector/text로 위치가 특정된 근거 항목 수 - DOM에서 확인되지 않은 근거는 제외
+ */
+function countAnchoredEvidence(evidence: unknown): number {
+  if (!evidence || typeof evidence !== 'object') return 0;
+  if (Array.isArray(evidence)) {
+    return evidence.reduce((sum: number, item) => sum + countAnchoredEvidence(item), 0);
+  }
+
+  const item = evidence as Record<string, any>;
+  const anchored = (Array.isArray(item.bbox) && item.bbox.length === 4)
+    || (typeof item.selector === 'string' && item.selector.length > 0)
+    || (typeof item.text === 'string' && item.text.length > 0);
+  if (anchored) return item.verification === 'unverified' ? 0 : 1;
+
+  return Object.entries(item)
+    .filter(([key]) => key !== 'screenshots')
+    .reduce((sum, [, value]) => sum + countAnchoredEvidence(value), 0);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -1,6 +1,7 @@
 import Vibrant from 'node-vibrant';
 import sharp from 'sharp';
 import * as cheerio from 'cheerio';
+import { DomElementSnapshot } from '../types/index.js';
 // import { JSDOM } from 'jsdom';
 
 export interface ColorPalette {
@@ -107,6 +108,10 @@ function hexToRgb(hex: string): [number, number, number] {
   ];
 }
 
+function rgbToHex(r: number, g: number, b: number): string {
+  return `#${[r, g, b].map(v => v.toString(16).padStart(2, '0')).join('')}`;
+}
+
 /**
  * WCAG 대비 비율 계산
  */
@@ -142,6 +147,178 @@ export function calculateContrast(foreground: string, background: string): Contr
   return { ratio, level, passes };
 }
 
+/**
+ * 대비 측정 대상 텍스트 (프로모션 문구, CTA)
+ */
+export interface ContrastTarget {
+  kind: 'promo' | 'cta';
+  selector: string;
+  text: string;
+  rect: BoundingBox; // 페이지 기준 CSS px
+  color: string; // computed color
+  fontSize?: number;
+  fontWeight?: number;
+}
+
+export interface TextContrastResult {
+  kind: ContrastTarget['kind'];
+  selector: string;
+  text: string;
+  bbox: [number, number, number, number];
+  foreground: string;
+  background: string; // 텍스트 상자 안 스크린샷 픽셀에서 추정
+  ratio: number;
+  largeText: boolean; // WCAG 큰 텍스트 (24px 이상 또는 18.66px 이상 굵은 글씨)
+  passes: boolean; // WCAG AA - 일반 4.5:1, 큰 텍스트 3:1
+}
+
+const CTA_TEXT_PATTERN = /바로\s*구매|구매하기|장바구니|담기|주문하기|결제하기|buy|add to cart|checkout|shop now/i;
+const PROMO_TEXT_PATTERN = /\d+\s*%|\d{1,3}(,\d{3})+\s*원|무료\s*배송|할인|쿠폰|적립|특가|세일|sale|이벤트|혜택/i;
+const MAX_CONTRAST_TARGETS = 20;
+
+// 글자색과 이 거리(RGB) 이상 떨어진 픽셀만 배경으로 간주 (글자 획/안티에일리어싱 제외)
+const BACKGROUND_COLOR_DISTANCE = 60;
+
+/**
+ * DOM 스냅샷에서 대비를 측정할 CTA/프로모션 텍스트 선택
+ * 같은 문구를 감싼 래퍼는 제외하고 페이지 위쪽부터 최대 20개
+ */
+export function selectContrastTargets(elements: DomElementSnapshot[]): ContrastTarget[] {
+  const matches = elements
+    .filter(el => el.color && el.text.length >= 2)
+    .map(el => {
+      const kind: ContrastTarget['kind'] | null = el.text.length <= 20 && CTA_TEXT_PATTERN.test(el.text)
+        ? 'cta'
+        : el.text.length <= 60 && PROMO_TEXT_PATTERN.test(el.text) ? 'promo' : null;
+      return { el, kind };
+    })
+    .filter((match): match is { el: DomElementSnapshot; kind: ContrastTarget['kind'] } => match.kind !== null);
+
+  const contains = (outer: BoundingBox, inner: BoundingBox) => inner !== outer
+    && inner.x >= outer.x && inner.y >= outer.y
+    && inner.x + inner.width <= outer.x + outer.width
+    && inner.y + inner.height <= outer.y + outer.height;
+
+  return matches
+    .filter(({ el }) => !matches.some(other => other.el !== el && contains(el.rect, other.el.rect)))
+    .sort((a, b) => a.el.rect.y - b.el.rect.y)
+    .slice(0, MAX_CONTRAST_TARGETS)
+    .map(({ el, kind }) => ({
+      kind,
+      selector: el.selector,
+      text: el.text,
+      rect: el.rect,
+      color: el.color!,
+      fontSize: el.fontSize,
+      fontWeight: el.fontWeight
+    }));
+}
+
+/**
+ * 텍스트 상자 뒤 스크린샷 픽셀로 배경색을 추정해 WCAG 대비 계산
+ * 배경은 글자색과 충분히 다른 픽셀의 채널별 중앙값 (그런 픽셀이 10% 미만이면 전체 픽셀)
+ */
+export async function measureTextContrast(
+  image: Buffer | string,
+  targets: ContrastTarget[],
+  deviceScaleFactor: number = 1
+): Promise<TextContrastResult[]> {
+  if (targets.length === 0) return [];
+
+  // 한 번만 디코딩해서 모든 상자에 사용
+  const { data, info } = await sharp(decodeImage(image)).removeAlpha().raw().toBuffer({ resolveWithObject: true });
+  const results: TextContrastResult[] = [];
+
+  for (const target of targets) {
+    const foreground = parseCssColor(target.color);
+    if (!foreground) continue;
+
+    const left = Math.max(0, Math.round(target.rect.x * deviceScaleFactor));
+    const top = Math.max(0, Math.round(target.rect.y * deviceScaleFactor));
+    const right = Math.min(info.width, Math.round((target.rect.x + target.rect.width) * deviceScaleFactor));
+    const bottom = Math.min(info.height, Math.round((target.rect.y + target.rect.height) * deviceScaleFactor));
+    if (right - left < 1 || bottom - top < 1) continue;
+
+    const all: Array<[number, number, number]> = [];
+    const far: Array<[number, number, number]> = [];
+    for (let y = top; y < bottom; y++) {
+      for (let x = left; x < right; x++) {
+        const offset = (y * info.width + x) * info.channels;
+        const pixel: [number, number, number] = [data[offset], data[offset + 1], data[offset + 2]];
+        all.push(pixel);
+        if (colorDistance(pixel, foreground) > BACKGROUND_COLOR_DISTANCE) {
+          far.push(pixel);
+        }
+      }
+    }
+    const background = medianColor(far.length >= all.length * 0.1 ? far : all);
+
+    const fontSize = target.fontSize ?? 16;
+    const largeText = fontSize >= 24 || (fontSize >= 18.66 && (target.fontWeight ?? 400) >= 700);
+    const contrast = calculateContrast(rgbToHex(...foreground), rgbToHex(...background));
+
+    results.push({
+      kind: target.kind,
+      selector: target.selector,
+      text: target.text,
+      bbox: [target.rect.x, target.rect.y, target.rect.width, target.rect.height],
+      foreground: rgbToHex(...foreground),
+      background: rgbToHex(...background),
+      ratio: Math.round(contrast.ratio * 100) / 100,
+      largeText,
+      passes: largeText ? contrast.passes.largeAA : contrast.passes.normalAA
+    });
+  }
+
+  return results;
+}
+
+/**
+ * 대비 측정 요약 - median은 uspPromo 대비 규칙(cv.textContrast) 입력
+ */
+export function summarizeTextContrast(results: TextContrastResult[]): { median?: number; passRatio?: number } {
+  if (results.length === 0) return {};
+  const ratios = results.map(result => result.ratio).sort((a, b) => a - b);
+  const middle = Math.floor(ratios.length / 2);
+  return {
+    median: ratios.length % 2 === 0 ? Math.round(((ratios[middle - 1] + ratios[middle]) / 2) * 100) / 100 : ratios[middle],
+    passRatio: Math.round((results.filter(result => result.passes).length / results.length) * 100) / 100
+  };
+}
+
+/**
+ * rgb()/rgba()/#hex computed color 파싱 - 완전히 투명하면 null
+ */
+function parseCssColor(color: string): [number, number, number] | null {
+  const rgb = color.match(/rgba?\(\s*(\d+)[,\s]+(\d+)[,\s]+(\d+)(?:[,\s/]+([\d.]+))?\s*\)/i);
+  if (rgb) {
+    if (rgb[4] !== undefined && parseFloat(rgb[4]) === 0) return null;
+    return [parseInt(rgb[1], 10), parseInt(rgb[2], 10), parseInt(rgb[3], 10)];
+  }
+  if (/^#[0-9a-f]{6}$/i.test(color)) {
+    return hexToRgb(color);
+  }
+  return null;
+}
+
+function colorDistance(a: [number, number, number], b: [number, number, number]): number {
+  return Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+}
+
+function medianColor(pixels: Array<[number, number, number]>): [number, number, number] {
+  const channel = (index: number) => {
+    const values = pixels.map(pixel => pixel[index]).sort((a, b) => a - b);
+    return values[Math.floor(values.length / 2)];
+  };
+  return [channel(0), channel(1), channel(2)];
+}
+
+function decodeImage(image: Buffer | string): Buffer {
+  return typeof image === 'string'
+    ? Buffer.from(image.replace(/^data:image\/[a-z+]+;base64,/, ''), 'base64')
+    : image;
+}
+
 /**
  * HTML에서 alt 텍스트 비율 계산
  */
@@ -251,6 +428,231 @@ export async function calculateColorReuse(
   }
 }
 
+export interface BrandColorReuse {
+  primaryColor: string; // 로고 영역에서 추출한 브랜드 색상
+  reuseRatio: number; // 로고 밖 첫 화면 격자 칸 중 브랜드 색상이 쓰인 칸 비율 (bi 규칙 cv.primaryReuseRatio)
+  matchedCells: number;
+  cells: number;
+}
+
+// 첫 화면을 나누는 격자 (모바일 세로 화면 기준 4 x 8)
+const REUSE_GRID = { cols: 4, rows: 8 };
+
+/**
+ * 로고 영역의 대표 유채색을 브랜드 색상으로 보고, 첫 화면 격자 칸마다 그 색이 쓰였는지 측정
+ * 칸 픽셀 중 cellShare 이상이 브랜드 색상이면 재사용 (bi 규칙 primaryReuseRatio의 params.cellShare)
+ * 흑백/회색 로고처럼 유채색이 없으면 null (측정 불가)
+ */
+export async function measureBrandColorReuse(
+  screenshot: Buffer | string,
+  logo: BoundingBox,
+  viewport: { width: number; height: number },
+  cellShare: number,
+  deviceScaleFactor: number = 1
+): Promise<BrandColorReuse | null> {
+  const buffer = decodeImage(screenshot);
+  const { width, height } = await sharp(buffer).metadata();
+  if (!width || !height) {
+    throw new Error('Unable to read screenshot dimensions');
+  }
+
+  const toPixels = (box: BoundingBox) => {
+    const left = Math.max(0, Math.round(box.x * deviceScaleFactor));
+    const top = Math.max(0, Math.round(box.y * deviceScaleFactor));
+    return {
+      left,
+      top,
+      width: Math.min(width - left, Math.round(box.width * deviceScaleFactor)),
+      height: Math.min(height - top, Math.round(box.height * deviceScaleFactor))
+    };
+  };
+
+  const logoRegion = toPixels(logo);
+  if (logoRegion.width < 4 || logoRegion.height < 4) return null;
+
+  const palette = await extractColorPalette(await sharp(buffer).extract(logoRegion).png().toBuffer());
+  const primaryColor = palette.dominantColors.map(c => c.color).find(isChromatic);
+  if (!primaryColor) return null;
+
+  const firstView = toPixels({ x: 0, y: 0, width: viewport.width, height: viewport.height });
+  const firstViewImage = await sharp(buffer).extract(firstView).png().toBuffer();
+  const cellWidth = Math.floor(firstView.width / REUSE_GRID.cols);
+  const cellHeight = Math.floor(firstView.height / REUSE_GRID.rows);
+
+  let cells = 0;
+  let matchedCells = 0;
+  for (let row = 0; row < REUSE_GRID.rows; row++) {
+    for (let col = 0; col < REUSE_GRID.cols; col++) {
+      const cell = { left: col * cellWidth, top: row * cellHeight, width: cellWidth, height: cellHeight };
+      // 로고와 겹치는 칸은 로고 자체의 색이므로 제외
+      const overlapsLogo = cell.left < logoRegion.left + logoRegion.width && logoRegion.left < cell.left + cell.width
+        && cell.top < logoRegion.top + logoRegion.height && logoRegion.top < cell.top + cell.height;
+      if (overlapsLogo) continue;
+
+      cells++;
+      const cellImage = await sharp(firstViewImage).extract(cell).png().toBuffer();
+      if (await calculateColorReuse(cellImage, primaryColor) >= cellShare) {
+        matchedCells++;
+      }
+    }
+  }
+
+  return {
+    primaryColor,
+    reuseRatio: cells > 0 ? Math.round((matchedCells / cells) * 100) / 100 : 0,
+    matchedCells,
+    cells
+  };
+}
+
+/**
+ * 브랜드 색상 후보 - 채도가 있고 너무 어둡거나 밝지 않은 색
+ */
+function isChromatic(hex: string): boolean {
+  const [r, g, b] = hexToRgb(hex).map(v => v / 255);
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const lightness = (max + min) / 2;
+  if (max === min || lightness < 0.15 || lightness > 0.9) return false;
+  const saturation = (max - min) / (1 - Math.abs(2 * lightness - 1));
+  return saturation >= 0.25;
+}
+
+/**
+ * 렌더링된 페이지에서 찾은 로고 후보 (img/svg, logo 클래스 요소, 홈 링크)
+ */
+export interface LogoCandidate {
+  selector: string;
+  tag: string;
+  src?: string;
+  alt?: string;
+  keyword: boolean; // 자신 또는 상위 요소의 src/alt/class/id에 logo/로고
+  homeLink: boolean; // 사이트 첫 페이지("/")로 가는 링크 안에 있음
+  inHeader: boolean; // header/#header/.header/[role=banner] 안에 있음
+  rect: BoundingBox; // 페이지 기준 CSS px
+}
+
+export interface LogoPosition {
+  aboveTheFold: boolean;
+  bottomPct: number; // 로고 하단 위치 / 뷰포트 높이 (bi 규칙 cv.logoBottomPct)
+}
+
+export interface LogoDetection extends LogoPosition {
+  source: 'dom' | 'llm';
+  selector?: string;
+  src?: string;
+  alt?: string;
+  matchedBy: Array<'keyword' | 'homeLink' | 'header'>;
+  bbox: BoundingBox;
+  screenshot?: string; // 로고 주변을 잘라낸 근거 이미지 (JPEG data URL)
+}
+
+/**
+ * 로고 위치 - 헤더 영역 기준(상단 몇 %)은 rules.yaml bi.logo 규칙에서 판정
+ */
+export function checkLogoPosition(bbox: BoundingBox, viewportHeight: number): LogoPosition {
+  return {
+    aboveTheFold: isAboveTheFold(bbox, viewportHeight),
+    bottomPct: Math.round(((bbox.y + bbox.height) / viewportHeight) * 1000) / 1000
+  };
+}
+
+/**
+ * 로고 후보 중 가장 그럴듯한 요소 선택
+ * - logo 키워드나 홈 링크 중 하나는 있어야 함
+ * - 점수: 키워드 2, 홈 링크 2, 헤더 안 1, 이미지(img/svg) 1 - 같으면 위쪽, 작은 요소 우선
+ * - 첫 화면 절반 이상을 덮는 배너 크기 요소는 제외
+ */
+export function selectLogo(
+  candidates: LogoCandidate[],
+  viewport: { width: number; height: number }
+): LogoDetection | null {
+  const scored = candidates
+    .filter(c => (c.keyword || c.homeLink) && c.rect.width * c.rect.height < viewport.width * viewport.height * 0.5)
+    .map(c => ({
+      candidate: c,
+      score: (c.keyword ? 2 : 0) + (c.homeLink ? 2 : 0) + (c.inHeader ? 1 : 0) + (c.tag === 'img' || c.tag === 'svg' ? 1 : 0)
+    }))
+    .sort((a, b) => b.score - a.score
+      || a.candidate.rect.y - b.candidate.rect.y
+      || a.candidate.rect.width * a.candidate.rect.height - b.candidate.rect.width * b.candidate.rect.height);
+
+  if (scored.length === 0) return null;
+  const { candidate } = scored[0];
+  const matchedBy: LogoDetection['matchedBy'] = [];
+  if (candidate.keyword) matchedBy.push('keyword');
+  if (candidate.homeLink) matchedBy.push('homeLink');
+  if (candidate.inHeader) matchedBy.push('header');
+
+  return {
+    source: 'dom',
+    selector: candidate.selector,
+    src: candidate.src,
+    alt: candidate.alt,
+    matchedBy,
+    bbox: candidate.rect,
+    ...checkLogoPosition(candidate.rect, viewport.height)
+  };
+}
+
+/**
+ * 렌더링된 페이지의 클릭 가능한 요소 (헤더/내비게이션 밖의 링크, 버튼)
+ */
+export interface CtaCandidate {
+  selector: string;
+  tag: string;
+  text: string; // innerText, value, aria-label 또는 안쪽 이미지 alt
+  rect: BoundingBox; // 페이지 기준 CSS px
+}
+
+export interface DetectedCta extends CtaCandidate {
+  aboveTheFold: boolean;
+  minSide: number; // 짧은 변 (CSS px) - 글자 링크 수준의 작은 요소 구분
+  viewportShare: number; // 첫 화면 대비 면적 비율
+}
+
+export interface CtaReport {
+  ctas: DetectedCta[];
+  aboveFoldCount: number;
+  aboveFoldSize: number; // 첫 화면 CTA 중 가장 큰 버튼의 짧은 변 (CSS px), 없으면 0 (firstView 규칙 cv.ctaAboveFoldSize)
+}
+
+const PURCHASE_CTA_PATTERN = /구매|장바구니|쿠폰|주문하기|buy|add to cart|shop now/i;
+// 구매 키워드가 들어가지만 구매 버튼이 아닌 링크
+const NON_CTA_PATTERN = /구매\s*(후기|평|내역|안내|가이드)/;
+const MAX_CTA_TEXT = 20;
+const MAX_CTAS = 10;
+
+/**
+ * 구매/장바구니/쿠폰 CTA 선택과 첫 화면 노출 판정
+ * 버튼으로 볼 최소 크기는 rules.yaml firstView.ctaVisible 규칙에서 판정
+ */
+export function summarizeCtas(
+  candidates: CtaCandidate[],
+  viewport: { width: number; height: number }
+): CtaReport {
+  const ctas = candidates
+    .filter(c => c.text.length <= MAX_CTA_TEXT && PURCHASE_CTA_PATTERN.test(c.text) && !NON_CTA_PATTERN.test(c.text))
+    .sort((a, b) => a.rect.y - b.rect.y)
+    .slice(0, MAX_CTAS)
+    .map(c => {
+      const aboveTheFold = c.rect.y >= 0 && isAboveTheFold(c.rect, viewport.height);
+      return {
+        ...c,
+        aboveTheFold,
+        minSide: Math.min(c.rect.width, c.rect.height),
+        viewportShare: Math.round(((c.rect.width * c.rect.height) / (viewport.width * viewport.height)) * 1000) / 1000
+      };
+    });
+
+  const aboveFold = ctas.filter(cta => cta.aboveTheFold);
+  return {
+    ctas,
+    aboveFoldCount: aboveFold.length,
+    aboveFoldSize: Math.max(0, ...aboveFold.map(cta => cta.minSide))
+  };
+}
+
 /**
  * 스크린샷에서 특정 영역 추출
  */
@@ -274,7 +676,136 @@ export async function extractRegion(
 }
 
 /**
- * 팝업/모달 감지 휴리스틱
+ * 근거 이미지 - CSS px 영역 주변을 padding만큼 넓혀 잘라낸 JPEG data URL
+ */
+export async function cropEvidenceImage(
+  screenshot: Buffer | string,
+  bbox: BoundingBox,
+  deviceScaleFactor: number = 1,
+  padding: number = 16
+): Promise<string> {
+  const buffer = decodeImage(screenshot);
+  const { width, height } = await sharp(buffer).metadata();
+  if (!width || !height) {
+    throw new Error('Unable to read screenshot dimensions');
+  }
+
+  const left = Math.max(0, Math.round((bbox.x - padding) * deviceScaleFactor));
+  const top = Math.max(0, Math.round((bbox.y - padding) * deviceScaleFactor));
+  const right = Math.min(width, Math.round((bbox.x + bbox.width + padding) * deviceScaleFactor));
+  const bottom = Math.min(height, Math.round((bbox.y + bbox.height + padding) * deviceScaleFactor));
+  if (right <= left || bottom <= top) {
+    throw new Error('Region is outside the screenshot');
+  }
+
+  const image = await sharp(buffer)
+    .extract({ left, top, width: right - left, height: bottom - top })
+    .jpeg({ quality: 80 })
+    .toBuffer();
+  return `data:image/jpeg;base64,${image.toString('base64')}`;
+}
+
+export interface ScreenshotSlice {
+  id: 'firstView' | 'midPage' | 'footer';
+  top: number; // 페이지 기준 CSS 픽셀
+  height: number;
+  image: string; // JPEG data URL
+}
+
+/**
+ * 전체 페이지 스크린샷을 퍼스트뷰/중간/하단 뷰포트 크기 구간으로 분할
+ * 페이지가 뷰포트 2개보다 짧으면 중간, 1개 이하면 하단 구간 생략
+ */
+export async function sliceFullPageScreenshot(
+  image: Buffer | string,
+  viewportHeight: number,
+  deviceScaleFactor: number = 1
+): Promise<ScreenshotSlice[]> {
+  const buffer = decodeImage(image);
+  const { width, height } = await sharp(buffer).metadata();
+  if (!width || !height) {
+    throw new Error('Unable to read screenshot dimensions');
+  }
+
+  const sliceHeight = Math.min(Math.round(viewportHeight * deviceScaleFactor), height);
+  const tops: Array<[ScreenshotSlice['id'], number]> = [['firstView', 0]];
+  if (height > sliceHeight * 2) {
+    tops.push(['midPage', Math.round((height - sliceHeight) / 2)]);
+  }
+  if (height > sliceHeight) {
+    tops.push(['footer', height - sliceHeight]);
+  }
+
+  return Promise.all(tops.map(async ([id, top]) => {
+    const slice = await sharp(buffer)
+      .extract({ left: 0, top, width, height: sliceHeight })
+      .jpeg({ quality: 80 })
+      .toBuffer();
+    return {
+      id,
+      top: Math.round(top / deviceScaleFactor),
+      height: Math.round(sliceHeight / deviceScaleFactor),
+      image: `data:image/jpeg;base64,${slice.toString('base64')}`
+    };
+  }));
+}
+
+/**
+ * 렌더링된 페이지에서 찾은 오버레이 후보 (fixed/sticky 또는 z-index 높은 absolute 요소)
+ */
+export interface OverlayCandidate {
+  selector: string;
+  tag: string;
+  text: string;
+  role?: string; // role 속성 또는 aria-modal이면 dialog
+  position: string; // computed position
+  zIndex: number;
+  rect: BoundingBox; // 뷰포트 기준 CSS px
+  coverage: number; // 첫 화면 중 이 요소가 실제로 가린 비율 (다른 오버레이에 가려진 부분 제외)
+}
+
+export interface DetectedOverlay extends OverlayCandidate {
+  kind: 'modal' | 'backdrop' | 'bar' | 'floating';
+  dismissed?: 'close' | 'escape' | 'hidden'; // 자동 닫기 방법 (닫지 않았으면 없음)
+}
+
+export interface OverlayReport {
+  overlays: DetectedOverlay[];
+  popupCount: number; // modal 개수 (visuals 규칙 cv.popupCount)
+  coverage: number; // 오버레이 전체가 가린 첫 화면 비율
+  screenshot?: string; // 오버레이가 떠 있는 첫 화면 (JPEG data URL)
+}
+
+// 첫 화면의 이 비율 이상을 덮으면 팝업으로 판단
+const MODAL_AREA = 0.3;
+const BACKDROP_AREA = 0.9;
+
+/**
+ * 오버레이 종류 판단 - 면적은 뷰포트와 겹치는 영역 기준
+ * - backdrop: 화면 대부분을 덮는 텍스트 없는 딤 레이어
+ * - modal: dialog 역할이거나 첫 화면의 30% 이상을 덮는 레이어 (팝업)
+ * - bar: 위/아래에 붙은 전체 너비 띠 (고정 헤더, 하단 탭바, 앱 설치 배너 등)
+ * - floating: 그 외 작은 고정 요소 (채팅/맨 위로 버튼 등)
+ */
+export function classifyOverlay(
+  candidate: OverlayCandidate,
+  viewport: { width: number; height: number }
+): DetectedOverlay['kind'] {
+  const { rect } = candidate;
+  const width = Math.min(rect.x + rect.width, viewport.width) - Math.max(rect.x, 0);
+  const height = Math.min(rect.y + rect.height, viewport.height) - Math.max(rect.y, 0);
+  const area = width > 0 && height > 0 ? (width * height) / (viewport.width * viewport.height) : 0;
+
+  if (area >= BACKDROP_AREA && !candidate.text) return 'backdrop';
+  if (candidate.role === 'dialog' || candidate.role === 'alertdialog' || area >= MODAL_AREA) return 'modal';
+  const anchored = rect.y <= 1 || rect.y + rect.height >= viewport.height - 1;
+  if (width >= viewport.width * 0.9 && anchored) return 'bar';
+  return 'floating';
+}
+
+/**
+ * 팝업/모달 감지 휴리스틱 - HTML만 있을 때 사용 (렌더링 측정은 PuppeteerScreenshot의 detectOverlays)
+ * 인라인 style로 숨긴 요소와 다른 후보 안에 들어 있는 요소는 제외
  */
 export function detectPopups(html: string): {
   count: number;
@@ -284,27 +815,24 @@ export function detectPopups(html: string): {
   const popupSelectors = [
     '[role="dialog"]',
     '[role="alertdialog"]',
-    '.modal:visible',
-    '.popup:visible',
-    '.overlay:visible',
-    '[class*="popup"]:visible',
-    '[class*="modal"]:visible',
-    '[id*="popup"]:visible',
-    '[id*="modal"]:visible'
+    '.modal',
+    '.popup',
+    '.overlay',
+    '[class*="popup"]',
+    '[class*="modal"]',
+    '[id*="popup"]',
+    '[id*="modal"]'
   ];
+  const isHidden = (el: any) => $(el).closest('[hidden], [style*="display:none"], [style*="display: none"]').length > 0;
 
   const foundSelectors: string[] = [];
-  let count = 0;
+  const found: any[] = [];
 
   popupSelectors.forEach(selector => {
-    try {
-      const elements = $(selector);
-      if (elements.length > 0) {
-        count += elements.length;
-        foundSelectors.push(selector);
-      }
-    } catch (e) {
-      // 잘못된 셀렉터 무시
+    const elements = $(selector).toArray().filter(el => !isHidden(el) && !found.includes(el));
+    if (elements.length > 0) {
+      found.push(...elements);
+      foundSelectors.push(selector);
     }
   });
 
@@ -313,15 +841,18 @@ export function detectPopups(html: string): {
     const $el = $(el);
     const style = $el.attr('style') || '';
     
-    if (style.includes('position: fixed') || style.includes('position:fixed')) {
+    if ((style.includes('position: fixed') || style.includes('position:fixed')) && !found.includes(el) && !isHidden(el)) {
       const zIndex = style.match(/z-index:\s*(\d+)/i);
       if (zIndex && parseInt(zIndex[1]) > 100) {
-        count++;
+        found.push(el);
         foundSelectors.push('position:fixed with high z-index');
       }
     }
   });
 
+  // 후보 안의 후보(모달 안의 .popup_content 등)는 하나로 셈
+  const count = found.filter(el => !found.some(other => other !== el && $(other).find(el).length > 0)).length;
+
   return { count, selectors: foundSelectors };
 }
 
@@ -386,7 +917,7 @@ export function hasViewportMeta(html: string): boolean {
 }
 
 /**
- * 가로 스크롤 감지 (추정)
+ * 가로 스크롤 감지 (추정) - 인라인 style만 확인, 렌더링 측정값(summarizeMobileMetrics)이 없을 때 사용
  */
 export function detectHorizontalOverflow(html: string, viewportWidth: number = 375): boolean {
   const $ = cheerio.load(html);
@@ -409,7 +940,76 @@ export function detectHorizontalOverflow(html: string, viewportWidth: number = 3
 }
 
 /**
- * 최소 폰트 크기 분석
+ * 렌더링된 페이지에서 수집한 모바일 측정 원본 (computed style / bounding rect 기준)
+ */
+export interface MobileMeasurementSamples {
+  viewportWidth: number;
+  scrollWidth: number; // document.documentElement.scrollWidth
+  fontSamples: Array<{ size: number; chars: number }>; // 보이는 텍스트 노드별 글자 크기(px)와 글자 수
+  touchTargets: Array<{ width: number; height: number }>; // 보이는 링크/버튼/입력 요소 크기(px)
+}
+
+export interface MobileMetrics {
+  source: 'dom';
+  viewportWidth: number;
+  scrollWidth: number;
+  hasOverflow: boolean;
+  minFontSize?: number; // 글자 수 기준 하위 5%를 제외한 최소 글자 크기
+  smallTextRatio: number; // 12px 미만 글자 비율
+  minTouchTarget?: number; // 하위 10%를 제외한 탭 타겟 짧은 변 최소값
+  smallTouchTargetRatio: number; // 짧은 변 44px 미만 탭 타겟 비율
+  touchTargetCount: number;
+}
+
+// 각주/법적 고지 같은 소수의 작은 글자나 본문 속 인라인 링크가 전체 점수를 좌우하지 않도록 하위 구간 제외
+const FONT_SIZE_PERCENTILE = 0.05;
+const TOUCH_TARGET_PERCENTILE = 0.1;
+const SMALL_FONT_SIZE = 12;
+const SMALL_TOUCH_TARGET = 44;
+
+/**
+ * 렌더링 측정값을 모바일 규칙 입력(cv.minFontSize, cv.minTouchTarget, cv.hasOverflow)으로 요약
+ */
+export function summarizeMobileMetrics(samples: MobileMeasurementSamples): MobileMetrics {
+  const fonts = samples.fontSamples.filter(sample => sample.size > 0 && sample.chars > 0);
+  const totalChars = fonts.reduce((sum, sample) => sum + sample.chars, 0);
+  const smallChars = fonts.filter(sample => sample.size < SMALL_FONT_SIZE).reduce((sum, sample) => sum + sample.chars, 0);
+  const targetSizes = samples.touchTargets.map(target => Math.min(target.width, target.height)).filter(size => size > 0);
+
+  return {
+    source: 'dom',
+    viewportWidth: samples.viewportWidth,
+    scrollWidth: samples.scrollWidth,
+    hasOverflow: samples.scrollWidth > samples.viewportWidth + 1, // 서브픽셀 반올림 허용
+    minFontSize: weightedPercentile(fonts.map(sample => ({ value: sample.size, weight: sample.chars })), FONT_SIZE_PERCENTILE),
+    smallTextRatio: totalChars > 0 ? Math.round((smallChars / totalChars) * 100) / 100 : 0,
+    minTouchTarget: weightedPercentile(targetSizes.map(value => ({ value, weight: 1 })), TOUCH_TARGET_PERCENTILE),
+    smallTouchTargetRatio: targetSizes.length > 0
+      ? Math.round((targetSizes.filter(size => size < SMALL_TOUCH_TARGET).length / targetSizes.length) * 100) / 100
+      : 0,
+    touchTargetCount: targetSizes.length
+  };
+}
+
+/**
+ * 가중 백분위수 - 작은 값부터 누적 가중치가 전체의 percentile을 넘는 첫 값
+ */
+function weightedPercentile(values: Array<{ value: number; weight: number }>, percentile: number): number | undefined {
+  if (values.length === 0) return undefined;
+  const sorted = [...values].sort((a, b) => a.value - b.value);
+  const total = sorted.reduce((sum, item) => sum + item.weight, 0);
+  let cumulative = 0;
+  for (const item of sorted) {
+    cumulative += item.weight;
+    if (cumulative > total * percentile) {
+      return Math.round(item.value * 10) / 10;
+    }
+  }
+  return sorted[sorted.length - 1].value;
+}
+
+/**
+ * 최소 폰트 크기 분석 - 인라인 style만 확인, 렌더링 측정값이 없을 때 사용
  */
 export function analyzeMinFontSize(html: string): number {
   const $ = cheerio.load(html);
@@ -440,7 +1040,7 @@ export function analyzeMinFontSize(html: string): number {
 }
 
 /**
- * 터치 타겟 크기 분석
+ * 터치 타겟 크기 분석 - 인라인 style만 확인, 렌더링 측정값이 없을 때 사용
  */
 export function analyzeMinTouchTarget(html: string): number {
   const $ = cheerio.load(html);
@@ -483,14 +1083,27 @@ export function analyzeSeoData(html: string): {
   hasAnalytics: boolean;
   canonical: boolean;
   altRatio: number;
+  scriptSources: string[];
 } {
   const $ = cheerio.load(html);
-  
+
   // 이미지 alt 비율
   const images = $('img').length;
   const imagesWithAlt = $('img[alt]').length;
   const altRatio = images > 0 ? imagesWithAlt / images : 0;
-  
+
+  // 외부 스크립트 src와 인라인 스크립트가 로드하는 URL
+  const scriptSources = new Set<string>();
+  $('script').each((_, el) => {
+    const src = $(el).attr('src');
+    if (src) {
+      scriptSources.add(src);
+    } else {
+      const urls = $(el).html()?.match(/(?:https?:)?\/\/[\w.-]+\.[a-z]{2,}[^\s'"`)]*/gi) || [];
+      urls.forEach(url => scriptSources.add(url));
+    }
+  });
+
   return {
     title: !!$('title').text(),
     metaDescription: !!$('meta[name="description"]').attr('content'),
@@ -498,7 +1111,8 @@ export function analyzeSeoData(html: string): {
     h1Count: $('h1').length,
     hasAnalytics: html.includes('googletagmanager') || html.includes('gtag') || html.includes('fbevents'),
     canonical: !!$('link[rel="canonical"]').attr('href'),
-    altRatio
+    altRatio,
+    scriptSources: [...scriptSources]
   };
 }
 
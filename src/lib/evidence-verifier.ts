@@ -0,0 +1,203 @@
+import * as cheerio from 'cheerio';
+import { DomElementSnapshot, EvidenceVerification, LLMGraderOutput } from '../types/index.js';
+
+// 미검증 근거 비율 1당 점수 감점 비율 (전부 미검증이면 절반)
+export const UNVERIFIED_PENALTY = 0.5;
+
+// bbox와 실제 요소의 IoU가 이 값 이상이면 일치로 판단
+const MATCH_IOU = 0.5;
+
+// 전체 페이지 스크린샷 구간 - 그 외 image id(pdp, cart, action1...)는 다른 페이지라 DOM으로 검증 불가
+const PAGE_IMAGE_IDS = new Set(['firstView', 'midPage', 'footer']);
+
+type Rect = DomElementSnapshot['rect'];
+type Verdict = 'verified' | 'snapped' | 'unverified';
+
+/**
+ * LLM 근거의 bbox/selector/text를 렌더링된 DOM 요소와 대조
+ * - 주장한 요소가 bbox 위치에 있으면 verified
+ * - 요소는 있으나 bbox가 어긋나면 실제 요소 위치로 bbox를 보정 (originalBbox에 원래 값 보존)
+ * - 요소를 찾지 못하면 unverified - 카테고리 점수를 미검증 비율만큼 감점
+ * 입력은 변경하지 않고 근거마다 verification을 기록한 사본을 반환
+ */
+export function verifyEvidence(output: LLMGraderOutput, elements: DomElementSnapshot[], html: string = ''): LLMGraderOutput {
+  const result: LLMGraderOutput = structuredClone(output);
+  if (elements.length === 0) {
+    return result;
+  }
+
+  const $ = cheerio.load(html);
+  for (const check of Object.values(result.scores as Record<string, any>)) {
+    if (!check?.evidence) continue;
+
+    const summary: EvidenceVerification = { checked: 0, verified: 0, snapped: 0, unverified: 0 };
+    visitEvidence(check.evidence, item => {
+      const verdict = verifyItem(item, elements, $);
+      if (!verdict) return;
+      item.verification = verdict;
+      summary.checked++;
+      summary[verdict]++;
+    });
+    if (summary.checked === 0) continue;
+
+    if (summary.unverified > 0 && typeof check.score === 'number') {
+      summary.originalScore = check.score;
+      const factor = 1 - UNVERIFIED_PENALTY * (summary.unverified / summary.checked);
+      check.score = Math.round(check.score * factor * 10) / 10;
+    }
+    check.evidenceVerification = summary;
+  }
+
+  return result;
+}
+
+/**
+ * bbox/selector/text를 가진 근거 항목 순회 (job-runner의 evidence 스크린샷 수집과 같은 기준)
+ */
+function visitEvidence(obj: any, visit: (item: Record<string, any>) => void): void {
+  if (!obj || typeof obj !== 'object') return;
+  if (Array.isArray(obj)) {
+    obj.forEach(item => visitEvidence(item, visit));
+    return;
+  }
+
+  if (toRect(obj.bbox) || typeof obj.selector === 'string' || typeof obj.text === 'string') {
+    visit(obj);
+  }
+  for (const [key, value] of Object.entries(obj)) {
+    if (key !== 'bbox' && key !== 'originalBbox' && key !== 'screenshots') {
+      visitEvidence(value, visit);
+    }
+  }
+}
+
+function verifyItem(item: Record<string, any>, elements: DomElementSnapshot[], $: cheerio.CheerioAPI): Verdict | undefined {
+  if (typeof item.image === 'string' && !PAGE_IMAGE_IDS.has(item.image)) {
+    return undefined;
+  }
+
+  const bbox = toRect(item.bbox);
+  const claimed = findClaimedElements(item, elements, $);
+
+  // 위치만 주장 - bbox 자리에 실제 요소가 있는지만 확인
+  if (!claimed) {
+    if (!bbox) return undefined;
+    return elements.some(el => matchesBox(el.rect, bbox)) ? 'verified' : 'unverified';
+  }
+
+  if (claimed.length === 0) {
+    // 배너 이미지 안의 문구는 DOM 텍스트로 확인할 수 없으므로 bbox가 이미지 위에 있으면 인정
+    const onImage = bbox && elements.some(el => el.tag === 'img' && contains(el.rect, center(bbox)));
+    return onImage ? 'verified' : 'unverified';
+  }
+  if (!bbox || claimed.some(el => matchesBox(el.rect, bbox))) {
+    return 'verified';
+  }
+
+  // bbox 중심에서 가장 가까운 요소로 보정
+  const target = center(bbox);
+  const nearest = claimed.reduce((best, el) => distance(center(el.rect), target) < distance(center(best.rect), target) ? el : best);
+  item.originalBbox = item.bbox;
+  item.bbox = [nearest.rect.x, nearest.rect.y, nearest.rect.width, nearest.rect.height].map(Math.round);
+  return 'snapped';
+}
+
+/**
+ * 근거가 가리키는 실제 요소 - text 우선, 없으면 selector
+ * 주장한 텍스트/셀렉터가 없으면 null
+ */
+function findClaimedElements(
+  item: Record<string, any>,
+  elements: DomElementSnapshot[],
+  $: cheerio.CheerioAPI
+): DomElementSnapshot[] | null {
+  const text = typeof item.text === 'string' ? normalizeClaim(item.text) : '';
+  const selector = typeof item.selector === 'string' ? item.selector.trim() : '';
+  if (text.length < 2 && !selector) {
+    return null;
+  }
+
+  if (text.length >= 2) {
+    const byText = innermost(elements.filter(el => normalizeClaim(el.text).includes(text)));
+    if (byText.length > 0 || !selector) return byText;
+  }
+
+  const exact = elements.filter(el => el.selector === selector);
+  if (exact.length > 0) return exact;
+
+  // 렌더링된 HTML에서 셀렉터로 찾은 요소를 태그/텍스트가 같은 스냅샷에 대응
+  let matched: any[] = [];
+  try {
+    matched = $(selector).toArray();
+  } catch {
+    return []; // 유효하지 않은 셀렉터
+  }
+  const labels = matched.map(el => ({
+    tag: el.tagName,
+    label: normalizeClaim($(el).text() || $(el).attr('alt') || $(el).attr('aria-label') || '')
+  }));
+  return innermost(elements.filter(el => labels.some(({ tag, label }) => {
+    const elementLabel = normalizeClaim(el.text);
+    return tag === el.tag && (label === elementLabel || (elementLabel.length >= 2 && label.includes(elementLabel)));
+  })));
+}
+
+/**
+ * 다른 후보를 감싸는 래퍼 요소 제외 - innerText가 자식 텍스트를 모두 포함하기 때문
+ */
+function innermost(candidates: DomElementSnapshot[]): DomElementSnapshot[] {
+  const area = (rect: Rect) => rect.width * rect.height;
+  return candidates.filter(el => !candidates.some(other =>
+    other !== el && containsRect(el.rect, other.rect) && area(other.rect) < area(el.rect)
+  ));
+}
+
+function matchesBox(rect: Rect, bbox: Rect): boolean {
+  return iou(rect, bbox) >= MATCH_IOU || (contains(bbox, center(rect)) && contains(rect, center(bbox)));
+}
+
+function toRect(bbox: unknown): Rect | null {
+  if (!Array.isArray(bbox) || bbox.length !== 4 || !bbox.every(v => typeof v === 'number' && Number.isFinite(v))) {
+    return null;
+  }
+  const [x, y, width, height] = bbox as number[];
+  return width > 0 && height > 0 ? { x, y, width, height } : null;
+}
+
+function iou(a: Rect, b: Rect): number {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  if (width <= 0 || height <= 0) return 0;
+  const intersection = width * height;
+  return intersection / (a.width * a.height + b.width * b.height - intersection);
+}
+
+function center(rect: Rect): { x: number; y: number } {
+  return { x: rect.x + rect.width / 2, y: rect.y + rect.height / 2 };
+}
+
+function contains(rect: Rect, point: { x: number; y: number }): boolean {
+  return point.x >= rect.x && point.x <= rect.x + rect.width && point.y >= rect.y && point.y <= rect.y + rect.height;
+}
+
+function containsRect(outer: Rect, inner: Rect): boolean {
+  return inner.x >= outer.x && inner.y >= outer.y
+    && inner.x + inner.width <= outer.x + outer.width
+    && inner.y + inner.height <= outer.y + outer.height;
+}
+
+function distance(a: { x: number; y: number }, b: { x: number; y: number }): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+/**
+ * 비교용 텍스트 - 따옴표/말줄임 제거, 공백 정리, 소문자
+ */
+function normalizeClaim(text: string): string {
+  return text
+    .replace(/["'“”‘’]/g, '')
+    .replace(/(\.\.\.|…)$/, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+}
@@ -0,0 +1,260 @@
+import * as cheerio from 'cheerio';
+
+/**
+ * LLM 입력용으로 축약한 HTML
+ */
+export interface CondensedHtml {
+  html: string;
+  originalLength: number;
+  estimatedTokens: number;
+  sections: string[]; // 포함된 영역 (일부만 포함된 영역도 포함)
+  truncated: boolean; // 예산 초과로 빠진 내용이 있는지
+}
+
+export interface CondenseOptions {
+  maxTokens?: number;
+}
+
+export const DEFAULT_HTML_TOKEN_BUDGET = 6000;
+
+// LLM이 평가하지 않는 요소
+const NOISE_SELECTOR = 'script, style, noscript, template, iframe, svg, canvas, object, embed, link:not([rel="canonical"])';
+const HIDDEN_SELECTOR = [
+  '[hidden]',
+  '[aria-hidden="true"]',
+  '[style*="display:none"]',
+  '[style*="display: none"]',
+  '[style*="visibility:hidden"]',
+  '[style*="visibility: hidden"]',
+  'input[type="hidden"]'
+].join(', ');
+
+// 셀렉터/근거 인용에 필요한 속성만 유지
+const KEPT_ATTRIBUTES = new Set([
+  'id', 'class', 'href', 'src', 'alt', 'title', 'name', 'type', 'role',
+  'aria-label', 'placeholder', 'action', 'content', 'property', 'rel', 'lang'
+]);
+const MAX_CLASSES = 3;
+const MAX_ATTRIBUTE_LENGTH = 120;
+const MAX_TEXT_LENGTH = 100;
+
+// 내용이 없어도 의미가 있는 요소 (빈 요소 정리에서 제외)
+const VOID_CONTENT = 'img, input, select, textarea, button, video, meta, br, hr';
+
+/**
+ * 평가 대상 영역 - 위에서부터 우선 포함
+ * Cafe24/아임웹 기본 스킨의 id/class 관례 포함
+ */
+const REGIONS: Array<{ name: string; selector: string; limit: number }> = [
+  { name: 'header', selector: 'header, #header, .header, [role="banner"]', limit: 1 },
+  { name: 'nav', selector: 'nav, #gnb, .gnb, #category, [role="navigation"]', limit: 2 },
+  {
+    name: 'hero',
+    selector: '[class*="hero"], [class*="main_visual"], [class*="mainVisual"], [class*="main-visual"], [class*="slide"], [class*="banner"]',
+    limit: 2
+  },
+  { name: 'footer', selector: 'footer, #footer, .footer, [role="contentinfo"]', limit: 1 }
+];
+
+// 정책/사업자 정보 링크 (신뢰 항목 근거)
+const POLICY_PATTERN = /개인정보|이용약관|약관|교환|반품|환불|배송|사업자|고객센터|A\/S|privacy|terms|return|refund/i;
+
+/**
+ * 토큰 수 추정 - 한글은 글자당 1토큰, 나머지는 4글자당 1토큰으로 근사
+ */
+export function estimateTokens(text: string): number {
+  const hangul = (text.match(/[ㄱ-힝]/g) || []).length;
+  return hangul + Math.ceil((text.length - hangul) / 4);
+}
+
+/**
+ * 스크립트/스타일/숨김 요소를 걷어내고 헤더, 내비게이션, 히어로, 정책 링크, 푸터,
+ * 나머지 보이는 텍스트(셀렉터 포함) 순으로 토큰 예산 안에서 채움
+ */
+export function condenseHtml(html: string, options: CondenseOptions = {}): CondensedHtml {
+  const maxTokens = options.maxTokens ?? DEFAULT_HTML_TOKEN_BUDGET;
+  const $ = cheerio.load(html);
+
+  $(NOISE_SELECTOR).remove();
+  $(HIDDEN_SELECTOR).remove();
+  $('*').contents().filter((_, node) => node.type === 'comment').remove();
+  cleanAttributes($);
+  removeEmptyElements($);
+
+  // 영역마다 마크업과, 예산이 부족할 때 쓸 텍스트 줄 표현을 함께 준비
+  // coveredBy: 해당 영역 마크업이 통째로 들어가면 생략 (중복 방지)
+  const parts: Array<{ name: string; markup: string; lines: string[]; coveredBy?: string }> = [];
+
+  const head = $('title, meta[name="description"], meta[name="viewport"], meta[name="keywords"], meta[property^="og:"], link[rel="canonical"]')
+    .toArray()
+    .map(el => compact($.html(el)));
+  if (head.length > 0) {
+    parts.push({ name: 'head', markup: head.join('\n'), lines: head });
+  }
+
+  const policies = $('a')
+    .toArray()
+    .filter(el => POLICY_PATTERN.test($(el).text()))
+    .map(el => `${selectorOf($, el)}: ${truncate(normalizeText($(el).text()))}${$(el).attr('href') ? ` (${$(el).attr('href')})` : ''}`);
+
+  for (const region of REGIONS) {
+    const elements = $('body').find(region.selector).toArray().slice(0, region.limit);
+    for (const el of elements) {
+      if (!$(el).parent().length) continue; // 앞 영역과 함께 이미 제거됨
+      parts.push({ name: region.name, markup: compact($.html(el)), lines: textLines($, el) });
+      $(el).remove();
+    }
+  }
+
+  if (policies.length > 0) {
+    // 푸터보다 앞에 두어 푸터가 예산을 넘어도 정책 링크는 남도록 함
+    const footerIndex = parts.findIndex(part => part.name === 'footer');
+    const policyPart = { name: 'policies', markup: policies.join('\n'), lines: policies, coveredBy: 'footer' };
+    parts.splice(footerIndex === -1 ? parts.length : footerIndex, 0, policyPart);
+  }
+
+  const body = $('body').get(0);
+  const rest = body ? textLines($, body) : [];
+  if (rest.length > 0) {
+    parts.push({ name: 'text', markup: rest.join('\n'), lines: rest });
+  }
+
+  // 예산 채우기 - 마크업이 넘치면 텍스트 줄로 대체하고 줄 단위로 자름
+  const output: string[] = [];
+  const sections: string[] = [];
+  let remaining = maxTokens;
+  let truncated = false;
+
+  const blockOf = (part: { name: string; markup: string }) => `<!-- ${part.name} -->\n${part.markup}`;
+
+  for (const part of parts) {
+    const cover = part.coveredBy ? parts.find(p => p.name === part.coveredBy) : undefined;
+    if (cover && estimateTokens(blockOf(cover)) <= remaining) continue;
+
+    const block = blockOf(part);
+    const cost = estimateTokens(block);
+    if (cost <= remaining) {
+      output.push(block);
+      sections.push(part.name);
+      remaining -= cost;
+      continue;
+    }
+
+    truncated = true;
+    const header = `<!-- ${part.name} (truncated) -->`;
+    const kept: string[] = [];
+    let used = estimateTokens(header);
+    for (const line of part.lines) {
+      const lineCost = estimateTokens(line) + 1;
+      if (used + lineCost > remaining) break;
+      kept.push(line);
+      used += lineCost;
+    }
+    if (kept.length > 0) {
+      output.push([header, ...kept].join('\n'));
+      sections.push(part.name);
+      remaining -= used;
+    }
+  }
+
+  const condensed = output.join('\n');
+  return {
+    html: condensed,
+    originalLength: html.length,
+    estimatedTokens: estimateTokens(condensed),
+    sections,
+    truncated
+  };
+}
+
+function cleanAttributes($: cheerio.CheerioAPI): void {
+  $('*').each((_, el) => {
+    if (el.type !== 'tag') return;
+    for (const [name, value] of Object.entries(el.attribs)) {
+      if (!KEPT_ATTRIBUTES.has(name)) {
+        delete el.attribs[name];
+      } else if (name === 'class') {
+        el.attribs[name] = value.split(/\s+/).filter(Boolean).slice(0, MAX_CLASSES).join(' ');
+      } else if (value.startsWith('data:')) {
+        el.attribs[name] = 'data:...';
+      } else if (value.length > MAX_ATTRIBUTE_LENGTH) {
+        el.attribs[name] = `${value.substring(0, MAX_ATTRIBUTE_LENGTH)}...`;
+      }
+    }
+  });
+}
+
+/**
+ * 텍스트도 이미지/입력 요소도 없는 래퍼 제거 (안쪽부터)
+ */
+function removeEmptyElements($: cheerio.CheerioAPI): void {
+  $('body *').toArray().reverse().forEach(el => {
+    const $el = $(el);
+    if ($el.is(VOID_CONTENT)) return;
+    if (normalizeText($el.text()) === '' && $el.find(VOID_CONTENT).length === 0) {
+      $el.remove();
+    }
+  });
+}
+
+/**
+ * 보이는 텍스트를 "셀렉터: 텍스트" 줄로 - 같은 텍스트는 한 번만
+ */
+function textLines($: cheerio.CheerioAPI, root: any): string[] {
+  const lines: string[] = [];
+  const seen = new Set<string>();
+
+  $(root).find('*').addBack().each((_, el) => {
+    if (el.type !== 'tag') return;
+    const $el = $(el);
+
+    if (el.tagName === 'img') {
+      const alt = $el.attr('alt');
+      lines.push(`${selectorOf($, el)}: [img] ${alt ? truncate(alt) : '(alt 없음)'}`);
+      return;
+    }
+    if (el.tagName === 'input' && $el.attr('placeholder')) {
+      lines.push(`${selectorOf($, el)}: [input] ${truncate($el.attr('placeholder') || '')}`);
+      return;
+    }
+
+    // 직접 포함한 텍스트만 - 자식 요소의 텍스트는 해당 요소 줄에서 출력
+    const ownText = normalizeText($el.contents().filter((_, node) => node.type === 'text').text());
+    if (!ownText || seen.has(ownText)) return;
+    seen.add(ownText);
+    lines.push(`${selectorOf($, el)}: ${truncate(ownText)}`);
+  });
+
+  return lines;
+}
+
+/**
+ * 짧은 셀렉터 - id가 있으면 tag#id, 없으면 부모 한 단계와 class로 구성
+ */
+function selectorOf($: cheerio.CheerioAPI, el: any): string {
+  const own = simpleSelector(el);
+  if (el.attribs?.id) return own;
+  const parent = $(el).parent().get(0) as any;
+  if (!parent || parent.type !== 'tag' || parent.tagName === 'body' || parent.tagName === 'html') {
+    return own;
+  }
+  return `${simpleSelector(parent)} > ${own}`;
+}
+
+function simpleSelector(el: any): string {
+  if (el.attribs?.id) return `${el.tagName}#${el.attribs.id}`;
+  const classes = (el.attribs?.class || '').split(/\s+/).filter(Boolean).slice(0, 2);
+  return [el.tagName, ...classes].join('.');
+}
+
+function compact(markup: string): string {
+  return markup.replace(/>\s+</g, '><').replace(/\s+/g, ' ').trim();
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_TEXT_LENGTH ? `${text.substring(0, MAX_TEXT_LENGTH)}...` : text;
+}
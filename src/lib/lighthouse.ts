@@ -273,7 +273,9 @@ export class LighthouseRunner {
     if (audits['network-requests']) {
       const items = audits['network-requests'].details?.items || [];
       metrics.requests = items.length;
-      console.log('Network requests:', metrics.requests);
+      // 4xx/5xx 응답 수 (speed 규칙 lighthouse.errors)
+      metrics.errors = items.filter((item: any) => item.statusCode >= 400).length;
+      console.log('Network requests:', metrics.requests, 'errors:', metrics.errors);
     }
 
     // 리다이렉트 수
@@ -0,0 +1,103 @@
+import { LLMGraderOutput, ScoreSpread } from '../types/index.js';
+
+// 샘플 점수 표준편차가 이 값 이상이면 불일치 카테고리로 표시
+export const DISAGREEMENT_STDDEV = 1.5;
+
+// 요청당 최대 샘플 수
+export const MAX_LLM_SAMPLES = 5;
+
+/**
+ * 샘플 수를 1 ~ MAX_LLM_SAMPLES 정수로 보정 - 숫자가 아니거나 지정하지 않으면 1회
+ */
+export function resolveSampleCount(value?: number | string): number {
+  const count = typeof value === 'string' ? parseInt(value, 10) : value;
+  if (count === undefined || !Number.isFinite(count)) {
+    return 1;
+  }
+  return Math.min(Math.max(Math.floor(count), 1), MAX_LLM_SAMPLES);
+}
+
+/**
+ * 여러 번의 LLM 그레이딩을 카테고리별 중앙값으로 합의
+ * 중앙값에 가장 가까운 샘플을 대표로 골라 evidence/insights를 유지하고,
+ * 점수와 확신도만 중앙값으로 교체한 뒤 카테고리별 분산을 scoreSpread에 기록
+ */
+export function aggregateGradings(outputs: LLMGraderOutput[]): LLMGraderOutput {
+  if (outputs.length === 0) {
+    throw new Error('At least one LLM grading is required');
+  }
+  if (outputs.length === 1) {
+    return outputs[0];
+  }
+
+  const categoryIds = Object.keys(outputs[0].scores);
+  const spreads: Record<string, ScoreSpread> = {};
+  for (const categoryId of categoryIds) {
+    const samples = outputs
+      .map(output => (output.scores as Record<string, { score?: number }>)[categoryId]?.score)
+      .filter((score): score is number => typeof score === 'number');
+    const variance = calculateVariance(samples);
+
+    spreads[categoryId] = {
+      samples,
+      median: median(samples),
+      variance: Math.round(variance * 100) / 100,
+      disagreement: Math.sqrt(variance) >= DISAGREEMENT_STDDEV
+    };
+  }
+
+  // 중앙값과의 거리 합이 가장 작은 샘플
+  const distance = (output: LLMGraderOutput) => categoryIds.reduce((sum, id) => {
+    const score = (output.scores as Record<string, { score?: number }>)[id]?.score;
+    return sum + (typeof score === 'number' ? Math.abs(score - spreads[id].median) : 0);
+  }, 0);
+  const representative = outputs.reduce((best, output) => distance(output) < distance(best) ? output : best);
+
+  const result: LLMGraderOutput = structuredClone(representative);
+  for (const categoryId of categoryIds) {
+    const check = (result.scores as Record<string, any>)[categoryId];
+    if (!check) continue;
+
+    const confidences = outputs
+      .map(output => (output.scores as Record<string, { confidence?: number }>)[categoryId]?.confidence)
+      .filter((confidence): confidence is number => typeof confidence === 'number');
+
+    check.score = spreads[categoryId].median;
+    if (confidences.length > 0) {
+      check.confidence = median(confidences);
+    }
+    check.scoreSpread = spreads[categoryId];
+  }
+
+  result.consensus = {
+    samples: outputs.length,
+    disagreements: categoryIds.filter(id => spreads[id].disagreement)
+  };
+
+  // 샘플은 병렬 호출 - 토큰은 합산, 처리 시간은 가장 느린 샘플 기준
+  const metadata = outputs.map(output => output.metadata).filter(m => m !== undefined);
+  if (metadata.length > 0) {
+    result.metadata = {
+      ...metadata[0],
+      processingTimeMs: Math.max(...metadata.map(m => m.processingTimeMs)),
+      tokensUsed: metadata.reduce((sum, m) => sum + m.tokensUsed, 0),
+      promptTokens: metadata.reduce((sum, m) => sum + m.promptTokens, 0),
+      completionTokens: metadata.reduce((sum, m) => sum + m.completionTokens, 0)
+    };
+  }
+
+  return result;
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+function calculateVariance(values: number[]): number {
+  if (values.length === 0) return 0;
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  return values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+}
@@ -0,0 +1,159 @@
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join, resolve } from 'path';
+import type { LLMCompletion, LLMCompletionRequest, LLMProvider, LLMProviderName } from './llm-providers.js';
+import { NotFoundError, ValidationError } from './errors.js';
+
+/**
+ * 녹화된 LLM 응답 - 파일명은 프롬프트 해시
+ * synthetic이면 실제 호출 없이 작성한 응답이라 녹화 정보(recordedAt/provider/model)가 없음
+ */
+export interface LLMFixture {
+  key: string;
+  synthetic?: boolean;
+  recordedAt?: string;
+  provider?: string;
+  model?: string;
+  request: {
+    systemPromptLength: number;
+    userPromptLength: number;
+    imageCount: number;
+  };
+  completion: LLMCompletion;
+}
+
+/**
+ * 프롬프트 해시 - 시스템/사용자 프롬프트와 이미지(라벨 포함)가 같으면 같은 응답을 재생
+ * 프로바이더/모델은 키에 포함하지 않음 (녹화한 응답을 다른 설정에서도 재생 가능)
+ */
+export function hashPrompt(request: LLMCompletionRequest): string {
+  return createHash('sha256')
+    .update(JSON.stringify([request.systemPrompt, request.userPrompt, request.images || []]))
+    .digest('hex')
+    .substring(0, 16);
+}
+
+/**
+ * 실제 프로바이더 응답을 fixture 파일로 저장
+ */
+export class RecordingProvider implements LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+  private inner: LLMProvider;
+  private dir: string;
+
+  constructor(inner: LLMProvider, dir: string) {
+    this.inner = inner;
+    this.dir = dir;
+    this.name = inner.name;
+    this.model = inner.model;
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const completion = await this.inner.complete(request);
+    const key = hashPrompt(request);
+    const recording = this.inner instanceof SyntheticProvider
+      ? { synthetic: true }
+      : { recordedAt: new Date().toISOString(), provider: this.inner.name, model: this.inner.model };
+    const fixture: LLMFixture = {
+      key,
+      ...recording,
+      request: {
+        systemPromptLength: request.systemPrompt.length,
+        userPromptLength: request.userPrompt.length,
+        imageCount: request.images?.length || 0
+      },
+      completion
+    };
+
+    mkdirSync(this.dir, { recursive: true });
+    writeFileSync(join(this.dir, `${key}.json`), JSON.stringify(fixture, null, 2));
+    console.log(`LLM fixture recorded: ${key}`);
+    return completion;
+  }
+}
+
+/**
+ * 손으로 작성한 응답 파일 - 그레이더 출력 JSON과 가상의 토큰 수
+ */
+export interface SyntheticResponse {
+  promptTokens: number;
+  completionTokens: number;
+  response: Record<string, any>;
+}
+
+/**
+ * 실제 호출 없이 작성한 응답을 돌려줌
+ * RecordingProvider로 감싸서 현재 프롬프트 해시의 synthetic fixture를 생성 (메타데이터를 손으로 고치지 않음)
+ */
+export class SyntheticProvider implements LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model = 'synthetic';
+  private path: string;
+
+  constructor(path: string, name: LLMProviderName) {
+    this.path = path;
+    this.name = name;
+  }
+
+  async complete(): Promise<LLMCompletion> {
+    const synthetic: SyntheticResponse = JSON.parse(readFileSync(this.path, 'utf-8'));
+    return {
+      content: JSON.stringify(synthetic.response),
+      model: this.model,
+      promptTokens: synthetic.promptTokens,
+      completionTokens: synthetic.completionTokens,
+      totalTokens: synthetic.promptTokens + synthetic.completionTokens
+    };
+  }
+}
+
+/**
+ * fixture 파일에서 응답 재생 - 네트워크 호출 없음
+ * 프롬프트가 바뀌면 해시가 달라지므로 LLM_FIXTURES=record로 다시 녹화해야 함
+ */
+export class ReplayProvider implements LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model = 'replay';
+  private dir: string;
+
+  constructor(dir: string, name: LLMProviderName) {
+    this.dir = dir;
+    this.name = name;
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const key = hashPrompt(request);
+    const path = join(this.dir, `${key}.json`);
+    if (!existsSync(path)) {
+      console.error(`No LLM fixture for prompt ${key} in ${this.dir} - re-record with LLM_FIXTURES=record`);
+      throw new NotFoundError('LLM fixture', key);
+    }
+
+    const fixture: LLMFixture = JSON.parse(readFileSync(path, 'utf-8'));
+    return fixture.completion;
+  }
+}
+
+/**
+ * LLM_FIXTURES 환경 변수에 따라 프로바이더를 감쌈
+ * record: 실제 호출 결과를 저장 / replay: 저장된 응답만 사용 (자격 증명 불필요)
+ * synthetic: LLM_SYNTHETIC_RESPONSE 파일의 응답을 현재 프롬프트 해시로 저장
+ */
+export function withLLMFixtures(provider: LLMProvider | null, name: LLMProviderName): LLMProvider | null {
+  const dir = resolve(process.env.LLM_FIXTURES_DIR || 'fixtures/llm');
+
+  switch (process.env.LLM_FIXTURES) {
+    case 'record':
+      return provider ? new RecordingProvider(provider, dir) : null;
+    case 'replay':
+      return new ReplayProvider(dir, name);
+    case 'synthetic':
+      if (!process.env.LLM_SYNTHETIC_RESPONSE) {
+        throw new ValidationError('LLM_SYNTHETIC_RESPONSE is required when LLM_FIXTURES=synthetic');
+      }
+      return new RecordingProvider(new SyntheticProvider(resolve(process.env.LLM_SYNTHETIC_RESPONSE), name), dir);
+    default:
+      return provider;
+  }
+}
@@ -0,0 +1,294 @@
+import OpenAI from 'openai';
+import type { LabeledScreenshot } from '../types/index.js';
+import { withLLMFixtures } from './llm-fixtures.js';
+
+export const LLM_PROVIDERS = ['openai', 'anthropic', 'local'] as const;
+export type LLMProviderName = typeof LLM_PROVIDERS[number];
+
+/**
+ * 그레이딩 요청 - 프로바이더와 무관한 형태
+ */
+export interface LLMCompletionRequest {
+  systemPrompt: string;
+  userPrompt: string;
+  images?: LabeledScreenshot[]; // 첨부 순서대로 "[id] label" 텍스트 뒤에 이미지
+}
+
+export interface LLMCompletion {
+  content: string; // JSON 문자열 (코드 블록으로 감싸져 있을 수 있음)
+  model: string; // 실제 응답한 모델
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * LLM 프로바이더 - VisionLLMGrader가 프롬프트 구성/출력 검증을 담당하고
+ * 프로바이더는 API 호출과 응답 형식 변환만 담당
+ */
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+  complete(request: LLMCompletionRequest): Promise<LLMCompletion>;
+}
+
+// 이미지 입력을 지원하는 OpenAI 모델
+const OPENAI_VISION_MODEL = /^(gpt-5|gpt-4o|gpt-4\.1|o3|o4)/;
+
+const DEFAULT_MODELS: Record<LLMProviderName, string> = {
+  openai: 'gpt-5',
+  anthropic: 'claude-sonnet-4-5',
+  local: 'llava'
+};
+
+/**
+ * OpenAI Chat Completions
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name: LLMProviderName = 'openai';
+  readonly model: string;
+  protected client: OpenAI;
+
+  constructor(apiKey: string, model: string = DEFAULT_MODELS.openai, baseURL?: string) {
+    this.client = new OpenAI({ apiKey, baseURL });
+    this.model = model;
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const messages: any[] = [
+      { role: 'system', content: request.systemPrompt }
+    ];
+
+    const images = this.supportsImages() ? request.images || [] : [];
+    if (images.length > 0) {
+      // 이미지는 content 배열로 전달 - 각 이미지 앞에 라벨 텍스트
+      messages.push({
+        role: 'user',
+        content: [
+          { type: 'text', text: request.userPrompt },
+          ...images.flatMap(image => [
+            { type: 'text', text: imageLabel(image) },
+            {
+              type: 'image_url',
+              image_url: {
+                url: image.image,
+                detail: 'high' // 고해상도 분석
+              }
+            }
+          ])
+        ]
+      });
+    } else {
+      messages.push({ role: 'user', content: request.userPrompt });
+    }
+
+    const isGpt5 = this.model === 'gpt-5';
+    const completionParams: any = {
+      model: this.model,
+      messages,
+      response_format: { type: 'json_object' },
+      temperature: isGpt5 ? 1 : 0.3 // GPT-5는 1, 다른 모델은 0.3
+    };
+
+    // GPT-5는 max_completion_tokens 사용 (reasoning + output), 다른 모델은 max_tokens 사용
+    if (isGpt5) {
+      completionParams.max_completion_tokens = 16000;
+    } else {
+      completionParams.max_tokens = 4000;
+    }
+
+    const response = await this.client.chat.completions.create(completionParams);
+    const content = response.choices[0]?.message?.content;
+
+    if (!content) {
+      console.error('Empty response details:', {
+        choices: response.choices?.length,
+        finish_reason: response.choices[0]?.finish_reason,
+        usage: response.usage
+      });
+      throw new Error('Empty response from LLM');
+    }
+
+    return {
+      content,
+      model: response.model,
+      promptTokens: response.usage?.prompt_tokens || 0,
+      completionTokens: response.usage?.completion_tokens || 0,
+      totalTokens: response.usage?.total_tokens || 0
+    };
+  }
+
+  protected supportsImages(): boolean {
+    return OPENAI_VISION_MODEL.test(this.model);
+  }
+}
+
+/**
+ * OpenAI 호환 로컬 엔드포인트 (Ollama, llama.cpp server, vLLM 등)
+ */
+export class LocalModelProvider extends OpenAIProvider {
+  readonly name: LLMProviderName = 'local';
+  private vision: boolean;
+
+  constructor(baseURL: string, model: string = DEFAULT_MODELS.local, apiKey: string = 'local', vision: boolean = true) {
+    super(apiKey, model, baseURL);
+    this.vision = vision;
+  }
+
+  protected supportsImages(): boolean {
+    return this.vision;
+  }
+}
+
+/**
+ * Anthropic Messages API
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name: LLMProviderName = 'anthropic';
+  readonly model: string;
+  private apiKey: string;
+  private apiBase: string;
+  private timeout: number;
+
+  constructor(
+    apiKey: string,
+    model: string = DEFAULT_MODELS.anthropic,
+    apiBase: string = 'https://api.anthropic.com/v1',
+    timeout: number = 120000
+  ) {
+    this.apiKey = apiKey;
+    this.model = model;
+    this.apiBase = apiBase;
+    this.timeout = timeout;
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const content: any[] = [];
+    for (const image of request.images || []) {
+      content.push({ type: 'text', text: imageLabel(image) });
+      content.push({ type: 'image', source: toAnthropicImageSource(image.image) });
+    }
+    content.push({ type: 'text', text: request.userPrompt });
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+
+    try {
+      const response = await fetch(`${this.apiBase}/messages`, {
+        method: 'POST',
+        headers: {
+          'x-api-key': this.apiKey,
+          'anthropic-version': '2023-06-01',
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          model: this.model,
+          max_tokens: 8000,
+          temperature: 0.3,
+          system: request.systemPrompt,
+          messages: [{ role: 'user', content }]
+        }),
+        signal: controller.signal
+      });
+
+      if (!response.ok) {
+        const error = await response.text();
+        throw new Error(`Anthropic API error: ${response.status} - ${error}`);
+      }
+
+      const data = await response.json() as any;
+      const text = (data.content || [])
+        .filter((block: any) => block.type === 'text')
+        .map((block: any) => block.text)
+        .join('');
+
+      if (!text) {
+        throw new Error(`Empty response from LLM (stop_reason: ${data.stop_reason})`);
+      }
+
+      const promptTokens = data.usage?.input_tokens || 0;
+      const completionTokens = data.usage?.output_tokens || 0;
+      return {
+        content: text,
+        model: data.model || this.model,
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens
+      };
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
+
+/**
+ * 이미지 앞에 붙는 라벨 - 프롬프트의 이미지 목록과 같은 형식
+ */
+export function imageLabel(image: LabeledScreenshot): string {
+  return `[${image.id}] ${image.label}`;
+}
+
+/**
+ * data URL은 base64로, 나머지는 URL 참조로 전달
+ */
+function toAnthropicImageSource(image: string): Record<string, string> {
+  const match = image.match(/^data:(image\/[a-z+]+);base64,(.+)$/);
+  if (match) {
+    return { type: 'base64', media_type: match[1], data: match[2] };
+  }
+  return { type: 'url', url: image };
+}
+
+/**
+ * 환경 변수로 프로바이더 생성 - 지정하지 않으면 LLM_PROVIDER (기본 openai)
+ * LLM_API_KEY/LLM_MODEL은 LLM_PROVIDER로 지정한 기본 프로바이더에 적용되고,
+ * 프로바이더별 변수(OPENAI_API_KEY, ANTHROPIC_API_KEY, LOCAL_LLM_BASE_URL 등)가 우선
+ * 자격 증명이 없으면 null, LLM_FIXTURES가 설정되면 녹화/재생 프로바이더로 감쌈
+ */
+export function createLLMProvider(name?: LLMProviderName): LLMProvider | null {
+  const providerName = name || getDefaultProviderName();
+  return withLLMFixtures(createBaseProvider(providerName), providerName);
+}
+
+function createBaseProvider(providerName: LLMProviderName): LLMProvider | null {
+  const isDefault = providerName === getDefaultProviderName();
+  const sharedKey = isDefault ? process.env.LLM_API_KEY : undefined;
+  const sharedModel = isDefault ? process.env.LLM_MODEL : undefined;
+
+  switch (providerName) {
+    case 'openai': {
+      const apiKey = process.env.OPENAI_API_KEY || sharedKey;
+      return apiKey ? new OpenAIProvider(apiKey, process.env.OPENAI_MODEL || sharedModel) : null;
+    }
+    case 'anthropic': {
+      const apiKey = process.env.ANTHROPIC_API_KEY || sharedKey;
+      return apiKey ? new AnthropicProvider(apiKey, process.env.ANTHROPIC_MODEL || sharedModel) : null;
+    }
+    case 'local': {
+      const baseURL = process.env.LOCAL_LLM_BASE_URL;
+      return baseURL
+        ? new LocalModelProvider(
+          baseURL,
+          process.env.LOCAL_LLM_MODEL || sharedModel,
+          process.env.LOCAL_LLM_API_KEY || sharedKey,
+          process.env.LOCAL_LLM_VISION !== 'false'
+        )
+        : null;
+    }
+  }
+}
+
+export function getDefaultProviderName(): LLMProviderName {
+  const name = process.env.LLM_PROVIDER || 'openai';
+  if (!(LLM_PROVIDERS as readonly string[]).includes(name)) {
+    throw new Error(`Unknown LLM_PROVIDER: ${name} (expected one of ${LLM_PROVIDERS.join(', ')})`);
+  }
+  return name as LLMProviderName;
+}
+
+/**
+ * 자격 증명이 설정된 프로바이더 목록
+ */
+export function listConfiguredProviders(): LLMProviderName[] {
+  return LLM_PROVIDERS.filter(name => createLLMProvider(name) !== null);
+}
@@ -0,0 +1,235 @@
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { parse } from 'yaml';
+import { z } from 'zod';
+import { AuditRun, LLMGraderOutput, LLMUsage } from '../types/index.js';
+import { ValidationError } from './errors.js';
+
+const ModelPriceSchema = z.object({
+  input: z.number().min(0), // USD / 100만 입력 토큰
+  output: z.number().min(0) // USD / 100만 출력 토큰
+});
+
+const LLMPricingSchema = z.object({
+  currency: z.literal('USD').default('USD'),
+  models: z.record(ModelPriceSchema)
+});
+
+export type LLMPricing = z.infer<typeof LLMPricingSchema>;
+
+export const DEFAULT_PRICING_PATH = fileURLToPath(new URL('../../config/llm-pricing.yaml', import.meta.url));
+
+/**
+ * 가격표 로드 및 검증
+ */
+export function loadLLMPricing(path: string = DEFAULT_PRICING_PATH): LLMPricing {
+  const result = LLMPricingSchema.safeParse(parse(readFileSync(path, 'utf-8')));
+  if (!result.success) {
+    throw new ValidationError(
+      `Invalid LLM pricing in ${path}`,
+      result.error.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message }))
+    );
+  }
+  return result.data;
+}
+
+let pricingInstance: LLMPricing | null = null;
+
+export function getLLMPricing(): LLMPricing {
+  if (!pricingInstance) {
+    pricingInstance = loadLLMPricing(process.env.LLM_PRICING_PATH || DEFAULT_PRICING_PATH);
+  }
+  return pricingInstance;
+}
+
+/**
+ * 토큰 비용 계산 (USD) - 정확히 일치하는 모델, 없으면 가장 긴 접두사 모델 가격 사용
+ * 가격표에 없으면 null
+ */
+export function calculateLLMCost(
+  model: string,
+  promptTokens: number,
+  completionTokens: number,
+  pricing: LLMPricing = getLLMPricing()
+): number | null {
+  const matched = pricing.models[model]
+    ? model
+    : Object.keys(pricing.models)
+      .filter(name => model.startsWith(name))
+      .sort((a, b) => b.length - a.length)[0];
+  if (!matched) return null;
+
+  const price = pricing.models[matched];
+  const cost = (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
+
+/**
+ * 그레이딩 메타데이터를 실행별 사용량으로 변환 (mock 그레이딩은 메타데이터가 없어 undefined)
+ */
+export function toLLMUsage(metadata: LLMGraderOutput['metadata'], pricing?: LLMPricing): LLMUsage | undefined {
+  if (!metadata) return undefined;
+
+  return {
+    provider: metadata.provider,
+    model: metadata.modelUsed,
+    promptTokens: metadata.promptTokens,
+    completionTokens: metadata.completionTokens,
+    totalTokens: metadata.tokensUsed,
+    costUsd: metadata.provider === 'local'
+      ? 0
+      : calculateLLMCost(metadata.modelUsed, metadata.promptTokens, metadata.completionTokens, pricing)
+  };
+}
+
+/**
+ * 요청 API 키 식별자 - 원문 대신 해시 앞 12자리만 저장
+ */
+export function getApiKeyId(apiKey: string | string[] | undefined): string | undefined {
+  const key = Array.isArray(apiKey) ? apiKey[0] : apiKey;
+  return key ? createHash('sha256').update(key).digest('hex').substring(0, 12) : undefined;
+}
+
+export interface UsageTotals {
+  runs: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  unpricedRuns: number; // 가격표에 없는 모델로 실행된 건수 (비용 합계에서 제외)
+}
+
+export interface UsageReport {
+  currency: 'USD';
+  from?: string;
+  to?: string;
+  total: UsageTotals;
+  byDay: Array<UsageTotals & { date: string }>;
+  byApiKey: Array<UsageTotals & { apiKeyId: string }>;
+  byModel: Array<UsageTotals & { model: string }>;
+  runs: UsageEntry[]; // 최근 실행 (limit개, 시간순)
+}
+
+/**
+ * 실행 하나의 사용량 - 집계와 최근 실행 목록의 단위
+ */
+export interface UsageEntry extends LLMUsage {
+  runId: string;
+  url: string;
+  startedAt: string; // ISO (UTC)
+  apiKeyId: string;
+}
+
+/**
+ * 날짜(UTC)/API 키/모델별 미리 합산한 사용량 - DB에서 GROUP BY 또는 누적 집계로 생성
+ */
+export interface UsageBucket extends UsageTotals {
+  date: string;
+  apiKeyId: string;
+  model: string;
+}
+
+export interface UsageFilter {
+  from?: string; // YYYY-MM-DD (UTC, 포함)
+  to?: string;
+  apiKeyId?: string;
+}
+
+// API 키 없이 요청한 실행
+export const ANONYMOUS_API_KEY = 'anonymous';
+
+// 리포트에 포함하는 최근 실행 수 기본값
+export const DEFAULT_USAGE_RUNS_LIMIT = 100;
+
+export function toUsageEntry(run: Pick<AuditRun, 'runId' | 'url' | 'startedAt' | 'apiKeyId'>, usage: LLMUsage): UsageEntry {
+  return {
+    ...usage,
+    runId: run.runId,
+    url: run.url,
+    startedAt: new Date(run.startedAt).toISOString(),
+    apiKeyId: run.apiKeyId || ANONYMOUS_API_KEY
+  };
+}
+
+export function matchesUsageFilter(entry: { startedAt?: string; date?: string; apiKeyId: string }, filter: UsageFilter): boolean {
+  const date = entry.date || entry.startedAt!.substring(0, 10);
+  return (!filter.from || date >= filter.from)
+    && (!filter.to || date <= filter.to)
+    && (!filter.apiKeyId || entry.apiKeyId === filter.apiKeyId);
+}
+
+/**
+ * 누적 집계에 실행 하나를 더하거나(sign 1) 뺌(sign -1) - 메모리/파일 DB용
+ */
+export function addToUsageBuckets(buckets: Map<string, UsageBucket>, entry: UsageEntry, sign: 1 | -1 = 1): void {
+  const date = entry.startedAt.substring(0, 10);
+  const key = `${date}|${entry.apiKeyId}|${entry.model}`;
+  const bucket = buckets.get(key) || {
+    date, apiKeyId: entry.apiKeyId, model: entry.model,
+    runs: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0, unpricedRuns: 0
+  };
+  bucket.runs += sign;
+  bucket.promptTokens += sign * entry.promptTokens;
+  bucket.completionTokens += sign * entry.completionTokens;
+  bucket.totalTokens += sign * entry.totalTokens;
+  bucket.costUsd += sign * (entry.costUsd ?? 0);
+  bucket.unpricedRuns += entry.costUsd === null ? sign : 0;
+
+  if (bucket.runs > 0) {
+    buckets.set(key, bucket);
+  } else {
+    buckets.delete(key);
+  }
+}
+
+/**
+ * 미리 합산한 사용량으로 리포트 구성 - 날짜는 시간순, API 키/모델은 비용 큰 순
+ */
+export function buildUsageReport(buckets: UsageBucket[], runs: UsageEntry[], options: UsageFilter = {}): UsageReport {
+  const selected = buckets.filter(bucket => matchesUsageFilter(bucket, options));
+
+  const groupBy = <K extends 'date' | 'apiKeyId' | 'model'>(key: K) => {
+    const groups = new Map<string, UsageBucket[]>();
+    for (const bucket of selected) {
+      groups.set(bucket[key], [...(groups.get(bucket[key]) || []), bucket]);
+    }
+    return Array.from(groups.entries())
+      .map(([value, group]) => ({ [key]: value, ...sumTotals(group) }) as UsageTotals & Record<K, string>);
+  };
+  const byCost = (a: UsageTotals, b: UsageTotals) => b.costUsd - a.costUsd || b.runs - a.runs;
+
+  return {
+    currency: 'USD',
+    from: options.from,
+    to: options.to,
+    total: sumTotals(selected),
+    byDay: groupBy('date').sort((a, b) => a.date.localeCompare(b.date)),
+    byApiKey: groupBy('apiKeyId').sort(byCost),
+    byModel: groupBy('model').sort(byCost),
+    runs: runs
+      .filter(entry => matchesUsageFilter(entry, options))
+      .sort((a, b) => a.startedAt.localeCompare(b.startedAt))
+  };
+}
+
+/**
+ * 실행 목록으로 직접 집계 (DB 집계를 쓸 수 없을 때와 테스트용)
+ */
+export function summarizeLLMUsage(runs: AuditRun[], options: UsageFilter = {}): UsageReport {
+  const entries = runs.filter(run => run.llmUsage).map(run => toUsageEntry(run, run.llmUsage!));
+  const buckets = new Map<string, UsageBucket>();
+  entries.forEach(entry => addToUsageBuckets(buckets, entry));
+  return buildUsageReport(Array.from(buckets.values()), entries, options);
+}
+
+function sumTotals(items: UsageTotals[]): UsageTotals {
+  return {
+    runs: items.reduce((sum, e) => sum + e.runs, 0),
+    promptTokens: items.reduce((sum, e) => sum + e.promptTokens, 0),
+    completionTokens: items.reduce((sum, e) => sum + e.completionTokens, 0),
+    totalTokens: items.reduce((sum, e) => sum + e.totalTokens, 0),
+    costUsd: Math.round(items.reduce((sum, e) => sum + e.costUsd, 0) * 1_000_000) / 1_000_000,
+    unpricedRuns: items.reduce((sum, e) => sum + e.unpricedRuns, 0)
+  };
+}
@@ -0,0 +1,160 @@
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import { parse } from 'yaml';
+import { z } from 'zod';
+import { NotFoundError, ValidationError } from './errors.js';
+
+/**
+ * 템플릿에서 사용할 수 있는 변수 - 값은 VisionLLMGrader가 그레이딩 입력에서 계산
+ */
+export const PROMPT_VARIABLES = [
+  'url',
+  'platform',
+  'verticalName',
+  'keywords',
+  'htmlLength',
+  'htmlExcerpt', // 앞부분 원문 (v1)
+  'condensedHtml', // 토큰 예산 내 HTML 요약
+  'actionCount',
+  'actionScreenshots', // 액션 스크린샷 URL 목록 (v1, v2)
+  'images', // 첨부 이미지 라벨 목록 ("- [id] label" 줄)
+  'imageCount'
+] as const;
+export type PromptVariable = typeof PROMPT_VARIABLES[number];
+export type PromptVariables = Record<PromptVariable, string>;
+
+/**
+ * 이름/버전이 부여된 프롬프트 템플릿
+ */
+export interface PromptTemplate {
+  key: string; // name@version
+  name: string;
+  version: number;
+  description?: string;
+  system: string;
+  user: string;
+}
+
+export interface RenderedPrompt {
+  template: string; // name@version
+  systemPrompt: string;
+  userPrompt: string;
+}
+
+export const DEFAULT_PROMPTS_DIR = fileURLToPath(new URL('../../config/prompts', import.meta.url));
+
+const PromptTemplateFileSchema = z.object({
+  prompt: z.object({
+    name: z.string().min(1),
+    version: z.number().int().positive(),
+    description: z.string().optional()
+  }),
+  system: z.string().min(1),
+  user: z.string().min(1)
+});
+
+// {{name}}, {{#name}}, {{/name}}
+const PLACEHOLDER = /\{\{([#/]?)(\w+)\}\}/g;
+const SECTION = /\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}/g;
+
+/**
+ * config/prompts/*.yaml 로드 - 알 수 없는 변수나 닫히지 않은 구간이 있으면 실패
+ */
+export function loadPromptTemplates(
+  dir: string = process.env.PROMPT_TEMPLATES_DIR || DEFAULT_PROMPTS_DIR
+): Map<string, PromptTemplate> {
+  const templates = new Map<string, PromptTemplate>();
+  if (!existsSync(dir)) {
+    return templates;
+  }
+
+  for (const file of readdirSync(dir).filter(f => /\.ya?ml$/.test(f)).sort()) {
+    const path = join(dir, file);
+    const result = PromptTemplateFileSchema.safeParse(parse(readFileSync(path, 'utf-8')));
+    if (!result.success) {
+      throw new ValidationError(`Invalid prompt template in ${path}`, result.error.issues.map(issue => ({
+        path: issue.path.join('.'),
+        message: issue.message
+      })));
+    }
+
+    const { prompt, system, user } = result.data;
+    validateTemplate(system, `${path} (system)`);
+    validateTemplate(user, `${path} (user)`);
+
+    const key = `${prompt.name}@${prompt.version}`;
+    if (templates.has(key)) {
+      throw new ValidationError(`Duplicate prompt template ${key} in ${path}`);
+    }
+    templates.set(key, { key, name: prompt.name, version: prompt.version, description: prompt.description, system, user });
+  }
+
+  return templates;
+}
+
+function validateTemplate(text: string, source: string): void {
+  for (const [, , name] of text.matchAll(PLACEHOLDER)) {
+    if (!(PROMPT_VARIABLES as readonly string[]).includes(name)) {
+      throw new ValidationError(`Invalid prompt template in ${source}`, [{ path: name, message: `unknown variable: ${name}` }]);
+    }
+  }
+
+  // 구간을 모두 걷어낸 뒤 남은 여닫는 태그는 짝이 맞지 않는 것
+  const unmatched = text.replace(SECTION, '').match(/\{\{[#/]\w+\}\}/);
+  if (unmatched) {
+    throw new ValidationError(`Invalid prompt template in ${source}`, [{ path: unmatched[0], message: 'unmatched section tag' }]);
+  }
+}
+
+/**
+ * 변수 치환 - 치환된 값은 다시 해석하지 않음 (HTML 안의 {{...}}가 그대로 남도록)
+ */
+export function renderTemplate(text: string, variables: PromptVariables): string {
+  return text
+    .replace(SECTION, (_match, name: PromptVariable, body: string) => (variables[name] ? body : ''))
+    .replace(PLACEHOLDER, (_match, _tag, name: PromptVariable) => variables[name] ?? '');
+}
+
+export function renderPrompt(template: PromptTemplate, variables: PromptVariables): RenderedPrompt {
+  return {
+    template: template.key,
+    systemPrompt: renderTemplate(template.system, variables),
+    userPrompt: renderTemplate(template.user, variables)
+  };
+}
+
+let templatesInstance: Map<string, PromptTemplate> | null = null;
+
+/**
+ * 시작 시 모든 템플릿 로드 - 설정 오류가 있으면 여기서 실패
+ */
+export function setupPromptTemplates(): Map<string, PromptTemplate> {
+  if (!templatesInstance) {
+    templatesInstance = loadPromptTemplates();
+    getPromptTemplate(); // PROMPT_TEMPLATE 기본값도 시작 시 검증
+  }
+  return templatesInstance;
+}
+
+/**
+ * 템플릿 조회 - name@version은 정확히, name만 주면 최신 버전
+ * 지정하지 않으면 PROMPT_TEMPLATE 환경 변수 또는 grader
+ */
+export function getPromptTemplate(ref: string = process.env.PROMPT_TEMPLATE || 'grader'): PromptTemplate {
+  const templates = templatesInstance || setupPromptTemplates();
+  const template = ref.includes('@')
+    ? templates.get(ref)
+    : Array.from(templates.values())
+      .filter(t => t.name === ref)
+      .sort((a, b) => b.version - a.version)[0];
+
+  if (!template) {
+    throw new NotFoundError('Prompt template', ref);
+  }
+  return template;
+}
+
+export function listPromptTemplates(): PromptTemplate[] {
+  return Array.from((templatesInstance || setupPromptTemplates()).values());
+}
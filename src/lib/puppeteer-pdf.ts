@@ -1,5 +1,7 @@
 import puppeteer, { Browser } from 'puppeteer';
 import { AuditResult } from '../types/index.js';
+import { formatMeasuredValue, formatThreshold } from './rules-engine.js';
+import { formatAccessibilityViolation } from './accessibility.js';
 
 export class PuppeteerPDFGenerator {
   private browser: Browser | null = null;
@@ -439,6 +441,21 @@ export class PuppeteerPDFGenerator {
           transition: width 0.3s;
         }
         
+        .score-item.low-confidence {
+          border: 1px dashed #9ca3af;
+          background: #fafafa;
+        }
+        
+        .confidence-badge {
+          margin-left: 8px;
+          padding: 2px 8px;
+          border-radius: 9999px;
+          background: #f3f4f6;
+          color: #6b7280;
+          font-size: 11px;
+          font-weight: 500;
+        }
+        
         .score-item-header {
           display: flex;
           justify-content: space-between;
@@ -551,10 +568,24 @@ export class PuppeteerPDFGenerator {
         <div class="page">
             <h2 class="page-title">체크리스트 상세 점수</h2>
             
+            ${result.weightMultipliers && Object.keys(result.weightMultipliers).length > 0 && result.appliedWeights ? `
+            <div style="margin-bottom: 20px; padding: 12px; background: #eff6ff; border-radius: 8px;">
+                <div style="font-size: 12px; font-weight: 600; color: #1e40af; margin-bottom: 6px;">맞춤 가중치 적용 - 총점은 아래 반영 비율로 100점 환산</div>
+                <div style="display: grid; grid-template-columns: repeat(2, 1fr); gap: 2px 20px; font-size: 11px; color: #1e3a8a;">
+                    ${Object.entries(result.appliedWeights).map(([id, percent]) => `
+                        <div>${this.getCategoryName(id)}: ${percent}%${result.weightMultipliers?.[id] !== undefined ? ` (×${result.weightMultipliers[id]})` : ''}</div>
+                    `).join('')}
+                </div>
+            </div>
+            ` : ''}
+            
             ${result.checks.map(check => `
-            <div class="score-item">
+            <div class="score-item${check.confidenceLevel === 'low' ? ' low-confidence' : ''}">
                 <div class="score-item-header">
-                    <span class="score-item-name">${this.getCategoryName(check.id)}</span>
+                    <span class="score-item-name">
+                        ${this.getCategoryName(check.id)}
+                        ${check.confidenceLevel === 'low' ? `<span class="confidence-badge">신뢰도 낮음 (추정치)</span>` : ''}
+                    </span>
                     <span class="score-item-value" style="color: ${this.getScoreColor(check.score * 10)}">
                         ${check.score}/10
                     </span>
@@ -564,6 +595,36 @@ export class PuppeteerPDFGenerator {
                     <div class="score-bar-fill" style="width: ${check.score * 10}%; background: ${this.getScoreColor(check.score * 10)}"></div>
                 </div>
                 
+                ${check.confidence !== undefined ? `
+                <div style="font-size: 11px; color: #9ca3af; margin-top: 6px;">
+                    신뢰도 ${Math.round(check.confidence * 100)}%${check.confidenceFactors ? ` · 측정 ${Math.round(check.confidenceFactors.ruleCoverage * 100)}% · 근거 ${Math.round(check.confidenceFactors.evidence * 100)}%${check.confidenceFactors.llm !== undefined ? ` · AI 확신도 ${Math.round(check.confidenceFactors.llm * 100)}%` : ''}` : ''}
+                </div>
+                ` : ''}
+                
+                ${check.ruleOutcomes && check.ruleOutcomes.length > 0 ? `
+                <div style="margin: 10px 0; padding: 10px; background: #f9fafb; border-radius: 6px;">
+                    <div style="font-size: 12px; font-weight: 600; color: #6b7280; margin-bottom: 5px;">규칙별 배점</div>
+                    <table style="width: 100%; border-collapse: collapse; font-size: 11px; color: #4b5563;">
+                        <tr style="color: #9ca3af; text-align: left;">
+                            <th style="font-weight: 500;">항목</th>
+                            <th style="font-weight: 500;">측정값</th>
+                            <th style="font-weight: 500;">기준</th>
+                            <th style="font-weight: 500; text-align: right;">점수</th>
+                        </tr>
+                        ${check.ruleOutcomes.map(outcome => `
+                        <tr style="border-top: 1px solid #e5e7eb;">
+                            <td style="padding: 2px 0;">${outcome.description}</td>
+                            <td>${formatMeasuredValue(outcome)}</td>
+                            <td>${formatThreshold(outcome.threshold)}</td>
+                            <td style="text-align: right; font-weight: 600; color: ${outcome.pointsAwarded < outcome.pointsPossible ? '#dc2626' : '#059669'}">
+                                ${Math.round(outcome.pointsAwarded * 10) / 10}/${outcome.pointsPossible}
+                            </td>
+                        </tr>
+                        `).join('')}
+                    </table>
+                </div>
+                ` : ''}
+                
                 ${check.metrics && Object.keys(check.metrics).length > 0 ? `
                 <div style="margin: 10px 0; padding: 10px; background: #f9fafb; border-radius: 6px;">
                     <div style="font-size: 12px; font-weight: 600; color: #6b7280; margin-bottom: 5px;">측정값</div>
@@ -589,6 +650,18 @@ export class PuppeteerPDFGenerator {
                 </div>
                 ` : ''}
                 
+                ${check.evidence?.accessibility?.violations?.length > 0 ? `
+                <div style="margin: 10px 0; padding: 10px; background: #f9fafb; border-radius: 6px;">
+                    <div style="font-size: 12px; font-weight: 600; color: #6b7280; margin-bottom: 5px;">접근성 위반 (axe-core 규칙 통과율 ${check.evidence!.accessibility.score}%)</div>
+                    ${check.evidence!.accessibility.violations.slice(0, 5).map((violation: any) => `
+                        <div style="display: flex; gap: 8px; align-items: center; margin: 4px 0;">
+                            ${violation.screenshot ? `<img src="${violation.screenshot}" style="width: 80px; height: 50px; object-fit: contain; border: 1px solid #e5e7eb; border-radius: 4px;" alt="${violation.id}">` : ''}
+                            <div style="font-size: 11px; color: #4b5563;">${formatAccessibilityViolation(violation)}</div>
+                        </div>
+                    `).join('')}
+                </div>
+                ` : ''}
+                
                 ${check.insights && check.insights.length > 0 ? `
                 <div class="score-item-insights" style="margin-top: 10px; padding: 10px; background: #fef3c7; border-radius: 6px;">
                     <div style="font-size: 12px; font-weight: 600; color: #92400e; margin-bottom: 5px;">💡 개선점</div>
@@ -2,6 +2,33 @@ import puppeteer, { Browser, Page, ScreenshotOptions } from 'puppeteer';
 import fs from 'fs/promises';
 import path from 'path';
 import crypto from 'crypto';
+import axe from 'axe-core';
+import { DomElementSnapshot } from '../types/index.js';
+import { AccessibilityMetrics, TagInventory } from '../types/domain.types.js';
+import { AXE_RUN_OPTIONS, AxeAuditResult, summarizeAccessibility } from './accessibility.js';
+import { buildTagInventory, NetworkRequestRecord } from './tag-inventory.js';
+import {
+  classifyOverlay,
+  CtaCandidate,
+  CtaReport,
+  DetectedOverlay,
+  LogoCandidate,
+  LogoDetection,
+  MobileMeasurementSamples,
+  MobileMetrics,
+  OverlayCandidate,
+  OverlayReport,
+  selectLogo,
+  summarizeCtas,
+  summarizeMobileMetrics
+} from './cv-utils.js';
+
+// DOM 스냅샷 최대 요소 수 (큰 페이지에서 결과 크기 제한)
+const MAX_DOM_ELEMENTS = 3000;
+
+// 태그 분류용 요청 기록 한도
+const MAX_RECORDED_REQUESTS = 5000;
+const MAX_POST_DATA = 4000;
 
 export interface ScreenshotConfig {
   viewport?: {
@@ -21,6 +48,14 @@ export interface ScreenshotConfig {
     value?: string | number;
     direction?: 'up' | 'down';
   }>;
+  collectElements?: boolean; // 스크린샷 시점의 요소 위치/텍스트 수집 (LLM 근거 검증용)
+  measureMobile?: boolean; // 글자 크기/탭 타겟/가로 스크롤을 렌더링 상태에서 측정
+  detectOverlays?: boolean; // 첫 화면을 가리는 팝업/고정 레이어 감지
+  dismissOverlays?: boolean; // 감지한 팝업을 닫은 뒤 본 스크린샷 캡처
+  detectLogo?: boolean; // DOM 휴리스틱으로 로고 요소와 위치 찾기
+  detectCtas?: boolean; // 구매/장바구니/쿠폰 버튼과 첫 화면 노출 여부 측정
+  auditAccessibility?: boolean; // axe-core 접근성 검사 (WCAG A/AA)
+  collectTags?: boolean; // 네트워크 요청으로 분석/마케팅 태그 분류
 }
 
 export interface ScreenshotResult {
@@ -29,8 +64,16 @@ export interface ScreenshotResult {
   localPath?: string; // local file path
   error?: string;
   html?: string; // rendered HTML content
+  elements?: DomElementSnapshot[]; // collectElements 지정 시 스크린샷과 같은 레이아웃의 요소 목록
+  mobileMetrics?: MobileMetrics; // measureMobile 지정 시 원래 뷰포트 기준 측정값
+  overlays?: OverlayReport; // detectOverlays 지정 시 첫 화면 오버레이
+  logo?: LogoDetection; // detectLogo 지정 시 찾은 로고 (못 찾으면 없음)
+  ctas?: CtaReport; // detectCtas 지정 시 원래 뷰포트 기준 CTA 위치
+  accessibility?: AccessibilityMetrics; // auditAccessibility 지정 시 위반 규칙 (검사 실패 시 없음)
+  tagInventory?: TagInventory; // collectTags 지정 시 캡처 중 요청으로 분류한 태그
   metadata?: {
     url: string;
+    finalUrl?: string; // 액션(클릭 등) 후 실제 페이지 URL
     timestamp: number;
     viewport: { width: number; height: number };
     fullPage: boolean;
@@ -156,6 +199,21 @@ export class PuppeteerScreenshot {
       );
     });
 
+    // 태그는 페이지 로드 직후부터 전송되므로 이동 전에 기록 시작
+    const requests: NetworkRequestRecord[] = [];
+    let loadPhase = true;
+    if (config.collectTags) {
+      page.on('request', request => {
+        if (requests.length >= MAX_RECORDED_REQUESTS) return;
+        requests.push({
+          url: request.url(),
+          resourceType: request.resourceType(),
+          postData: request.postData()?.slice(0, MAX_POST_DATA),
+          onLoad: loadPhase
+        });
+      });
+    }
+
     try {
       // Set viewport
       const viewport = config.viewport || {
@@ -192,6 +250,9 @@ export class PuppeteerScreenshot {
         }
       }
 
+      // 이후 요청은 액션/스크롤로 발생한 것
+      loadPhase = false;
+
       // Execute actions if provided
       if (config.actions) {
         await this.executeActions(page, config.actions);
@@ -277,6 +338,11 @@ export class PuppeteerScreenshot {
       // Final wait for any remaining dynamic content
       await new Promise(resolve => setTimeout(resolve, 5000));
 
+      // 팝업/오버레이 감지 - 아래에서 fixed 요소를 absolute로 바꾸기 전에 첫 화면 기준으로 측정
+      const overlays = config.detectOverlays
+        ? await this.detectOverlays(page, config.dismissOverlays === true)
+        : undefined;
+
       // 스크린샷 직전에 페이지 맨 위로 스크롤 및 fixed 요소 처리
       await page.evaluate(() => {
         window.scrollTo(0, 0);
@@ -296,9 +362,17 @@ export class PuppeteerScreenshot {
 
       // Capture full HTML after rendering
       const fullHTML = await page.content();
+      const finalUrl = page.url();
+
+      // 전체 높이 뷰포트로 바꾸기 전, 실제 뷰포트 너비 기준으로 측정
+      const mobileMetrics = config.measureMobile ? await this.measureMobile(page) : undefined;
+      const logo = config.detectLogo ? await this.detectLogo(page) : undefined;
+      const ctas = config.detectCtas ? await this.detectCtas(page) : undefined;
+      const accessibility = config.auditAccessibility ? await this.auditAccessibility(page) : undefined;
       
       // fullPage 버그 우회: 페이지 전체 높이를 계산하여 뷰포트 높이 조정
       let screenshotBuffer: Buffer;
+      let elements: DomElementSnapshot[] | undefined;
       
       if (config.fullPage !== false) {
         // 페이지 전체 높이 계산
@@ -327,6 +401,11 @@ export class PuppeteerScreenshot {
         
         // 뷰포트 조정 후 잠시 대기
         await new Promise(resolve => setTimeout(resolve, 500));
+
+        // 뷰포트 높이 변경으로 레이아웃이 바뀔 수 있으므로 캡처 직전에 수집
+        if (config.collectElements) {
+          elements = await this.collectElementSnapshots(page);
+        }
         
         // fullPage: false로 스크린샷 캡처 (뷰포트가 이미 전체 높이)
         const screenshotOptions: ScreenshotOptions = {
@@ -341,6 +420,9 @@ export class PuppeteerScreenshot {
         await page.setViewport(viewport);
       } else {
         // fullPage가 아닌 경우 기존 방식
+        if (config.collectElements) {
+          elements = await this.collectElementSnapshots(page);
+        }
         const screenshotOptions: ScreenshotOptions = {
           fullPage: false,
           type: config.type || 'png',
@@ -368,8 +450,16 @@ export class PuppeteerScreenshot {
         screenshot: dataUri,
         localPath,
         html: fullHTML, // Include full rendered HTML
+        elements,
+        mobileMetrics,
+        overlays,
+        logo,
+        ctas,
+        accessibility,
+        tagInventory: config.collectTags ? buildTagInventory(requests, fullHTML) : undefined,
         metadata: {
           url,
+          finalUrl,
           timestamp: Date.now(),
           viewport: { width: viewport.width, height: viewport.height },
           fullPage: config.fullPage !== false
@@ -382,6 +472,376 @@ export class PuppeteerScreenshot {
     }
   }
 
+  /**
+   * 보이는 요소의 셀렉터/텍스트/위치 수집 - 좌표는 페이지 기준 CSS px
+   * 텍스트도 대체 텍스트도 없는 래퍼와 너무 작은 요소는 제외
+   */
+  private async collectElementSnapshots(page: Page): Promise<DomElementSnapshot[]> {
+    return page.evaluate((limit: number) => {
+      const snapshots: DomElementSnapshot[] = [];
+      const skipped = ['script', 'style', 'noscript', 'template', 'svg', 'path', 'br'];
+
+      for (const el of Array.from(document.querySelectorAll('body *'))) {
+        if (snapshots.length >= limit) break;
+        const tag = el.tagName.toLowerCase();
+        if (skipped.includes(tag)) continue;
+
+        const rect = el.getBoundingClientRect();
+        if (rect.width < 2 || rect.height < 2) continue;
+        const style = window.getComputedStyle(el);
+        if (style.visibility === 'hidden' || style.display === 'none' || style.opacity === '0') continue;
+
+        const text = ((el as HTMLElement).innerText || el.getAttribute('alt') || el.getAttribute('aria-label') || '')
+          .replace(/\s+/g, ' ')
+          .trim()
+          .substring(0, 300);
+        if (!text && tag !== 'img' && tag !== 'input' && tag !== 'button') continue;
+
+        // html-condenser와 같은 형식의 짧은 셀렉터 (tag#id 또는 tag.class1.class2)
+        const classes = Array.from(el.classList).slice(0, 2);
+        const selector = el.id ? `${tag}#${el.id}` : [tag, ...classes].join('.');
+
+        snapshots.push({
+          selector,
+          tag,
+          text,
+          rect: {
+            x: Math.round(rect.left + window.scrollX),
+            y: Math.round(rect.top + window.scrollY),
+            width: Math.round(rect.width),
+            height: Math.round(rect.height)
+          },
+          color: text ? style.color : undefined,
+          fontSize: text ? parseFloat(style.fontSize) : undefined,
+          fontWeight: text ? parseInt(style.fontWeight, 10) || 400 : undefined
+        });
+      }
+
+      return snapshots;
+    }, MAX_DOM_ELEMENTS);
+  }
+
+  /**
+   * 첫 화면의 fixed/sticky 레이어(z-index 높은 absolute 포함)를 찾아 종류와 가린 비율 기록
+   * 가린 비율은 뷰포트 격자 지점마다 elementFromPoint로 맨 위 요소를 확인해 계산
+   * dismiss면 팝업을 닫기 버튼 → Esc → 숨김 순으로 닫음
+   */
+  private async detectOverlays(page: Page, dismiss: boolean): Promise<OverlayReport> {
+    await page.evaluate(() => window.scrollTo(0, 0));
+    await new Promise(resolve => setTimeout(resolve, 300));
+
+    const { viewport, candidates, coverage } = await page.evaluate(() => {
+      const width = window.innerWidth;
+      const height = window.innerHeight;
+      const overlays: Element[] = [];
+      const found: OverlayCandidate[] = [];
+
+      for (const el of Array.from(document.querySelectorAll('body *'))) {
+        const style = window.getComputedStyle(el);
+        const zIndex = parseInt(style.zIndex, 10) || 0;
+        const layered = style.position === 'fixed' || style.position === 'sticky' || (style.position === 'absolute' && zIndex >= 100);
+        if (!layered || style.display === 'none' || style.visibility === 'hidden' || parseFloat(style.opacity) === 0) continue;
+        if (overlays.some(parent => parent.contains(el))) continue;
+
+        const rect = el.getBoundingClientRect();
+        if (rect.right <= 0 || rect.bottom <= 0 || rect.left >= width || rect.top >= height || rect.width < 2 || rect.height < 2) continue;
+
+        overlays.push(el);
+        el.setAttribute('data-audit-overlay', String(overlays.length - 1));
+        const tag = el.tagName.toLowerCase();
+        const classes = Array.from(el.classList).slice(0, 2);
+        found.push({
+          selector: el.id ? `${tag}#${el.id}` : [tag, ...classes].join('.'),
+          tag,
+          text: ((el as HTMLElement).innerText || '').replace(/\s+/g, ' ').trim().substring(0, 100),
+          role: el.getAttribute('aria-modal') === 'true' ? 'dialog' : el.getAttribute('role') || undefined,
+          position: style.position,
+          zIndex,
+          rect: { x: Math.round(rect.left), y: Math.round(rect.top), width: Math.round(rect.width), height: Math.round(rect.height) },
+          coverage: 0
+        });
+      }
+
+      // 20 x 40 격자 - 각 지점의 맨 위 요소가 속한 오버레이에 집계
+      const cols = 20;
+      const rows = 40;
+      let covered = 0;
+      const hits = overlays.map(() => 0);
+      for (let row = 0; row < rows; row++) {
+        for (let col = 0; col < cols; col++) {
+          const hit = document.elementFromPoint((col + 0.5) * width / cols, (row + 0.5) * height / rows);
+          const index = hit ? overlays.findIndex(overlay => overlay.contains(hit)) : -1;
+          if (index >= 0) {
+            hits[index]++;
+            covered++;
+          }
+        }
+      }
+
+      return {
+        viewport: { width, height },
+        candidates: found.map((candidate, i) => ({ ...candidate, coverage: Math.round((hits[i] / (cols * rows)) * 100) / 100 })),
+        coverage: Math.round((covered / (cols * rows)) * 100) / 100
+      };
+    });
+
+    const overlays: DetectedOverlay[] = candidates.map(candidate => ({ ...candidate, kind: classifyOverlay(candidate, viewport) }));
+    const report: OverlayReport = {
+      overlays,
+      popupCount: overlays.filter(overlay => overlay.kind === 'modal').length,
+      coverage
+    };
+
+    if (overlays.some(overlay => overlay.kind === 'modal' || overlay.kind === 'backdrop')) {
+      const image = Buffer.from(await page.screenshot({ type: 'jpeg', quality: 70, fullPage: false }));
+      report.screenshot = `data:image/jpeg;base64,${image.toString('base64')}`;
+    }
+
+    if (dismiss) {
+      // 팝업을 먼저 닫고, 그래도 남은 딤 레이어 처리
+      const order = overlays
+        .map((overlay, index) => ({ overlay, index }))
+        .filter(({ overlay }) => overlay.kind === 'modal' || overlay.kind === 'backdrop')
+        .sort((a, b) => (a.overlay.kind === 'modal' ? 0 : 1) - (b.overlay.kind === 'modal' ? 0 : 1));
+      for (const { overlay, index } of order) {
+        overlay.dismissed = await this.dismissOverlay(page, index);
+      }
+    }
+
+    await page.evaluate(() => {
+      document.querySelectorAll('[data-audit-overlay]').forEach(el => el.removeAttribute('data-audit-overlay'));
+    });
+
+    return report;
+  }
+
+  private async dismissOverlay(page: Page, index: number): Promise<DetectedOverlay['dismissed']> {
+    const isShown = () => page.evaluate((i: number) => {
+      const el = document.querySelector(`[data-audit-overlay="${i}"]`);
+      if (!el || !el.isConnected) return false;
+      const style = window.getComputedStyle(el);
+      const rect = el.getBoundingClientRect();
+      return style.display !== 'none' && style.visibility !== 'hidden' && parseFloat(style.opacity) > 0 && rect.width > 0 && rect.height > 0;
+    }, index);
+
+    if (!(await isShown())) return undefined; // 앞 팝업과 함께 닫힘
+
+    // 닫기 버튼 - "닫기", "오늘 하루 보지 않기", ×, close 클래스 등
+    const clicked = await page.evaluate((i: number) => {
+      const overlay = document.querySelector(`[data-audit-overlay="${i}"]`);
+      if (!overlay) return false;
+      const close = Array.from(overlay.querySelectorAll('button, a, [role="button"], [onclick], [class*="close"], [class*="Close"], img[alt]'))
+        .find(el => {
+          const label = [el.getAttribute('aria-label'), el.getAttribute('title'), el.getAttribute('alt'), el.getAttribute('class'), el.textContent].join(' ');
+          return /닫기|close|오늘\s*하루|다시\s*보지|그만\s*보기/i.test(label) || /^[×✕xX]$/.test((el.textContent || '').trim());
+        });
+      if (!close) return false;
+      (close as HTMLElement).click();
+      return true;
+    }, index);
+    if (clicked) {
+      await new Promise(resolve => setTimeout(resolve, 500));
+      if (!(await isShown())) return 'close';
+    }
+
+    await page.keyboard.press('Escape');
+    await new Promise(resolve => setTimeout(resolve, 300));
+    if (!(await isShown())) return 'escape';
+
+    await page.evaluate((i: number) => {
+      const el = document.querySelector(`[data-audit-overlay="${i}"]`) as HTMLElement | null;
+      el?.style.setProperty('display', 'none', 'important');
+    }, index);
+    return 'hidden';
+  }
+
+  /**
+   * 보이는 텍스트의 computed font-size, 탭 타겟 크기, 문서 가로 폭 수집
+   */
+  private async measureMobile(page: Page): Promise<MobileMetrics> {
+    // 페이지 컨텍스트에서 실행 - 이름 붙은 헬퍼 함수는 번들러가 주입하는 코드 때문에 쓰지 않음
+    const samples: MobileMeasurementSamples = await page.evaluate(() => {
+      const hidden = new WeakSet<Element>();
+      for (const el of Array.from(document.querySelectorAll('body *'))) {
+        const rect = el.getBoundingClientRect();
+        const style = window.getComputedStyle(el);
+        if (rect.width === 0 || rect.height === 0 || style.visibility === 'hidden' || style.display === 'none' || parseFloat(style.opacity) === 0) {
+          hidden.add(el);
+        }
+      }
+
+      const fontSamples: Array<{ size: number; chars: number }> = [];
+      const walker = document.createTreeWalker(document.body, NodeFilter.SHOW_TEXT);
+      while (walker.nextNode()) {
+        const text = (walker.currentNode.textContent || '').replace(/\s+/g, '');
+        const parent = walker.currentNode.parentElement;
+        if (!text || !parent || hidden.has(parent) || ['SCRIPT', 'STYLE', 'NOSCRIPT'].includes(parent.tagName)) continue;
+        fontSamples.push({ size: parseFloat(window.getComputedStyle(parent).fontSize), chars: text.length });
+      }
+
+      const touchTargets = Array.from(document.querySelectorAll(
+        'a[href], button, input:not([type="hidden"]), select, textarea, [role="button"], [onclick]'
+      ))
+        .filter(el => !hidden.has(el))
+        .map(el => {
+          const rect = el.getBoundingClientRect();
+          return { width: Math.round(rect.width), height: Math.round(rect.height) };
+        });
+
+      return {
+        viewportWidth: window.innerWidth,
+        scrollWidth: document.documentElement.scrollWidth,
+        fontSamples,
+        touchTargets
+      };
+    });
+
+    return summarizeMobileMetrics(samples);
+  }
+
+  /**
+   * 로고 후보 수집 - img/svg, class/id에 logo가 들어간 요소, 첫 페이지로 가는 링크
+   * 첫 화면 두 배 높이 안의 보이는 요소만 보고 선택은 selectLogo
+   */
+  private async detectLogo(page: Page): Promise<LogoDetection | undefined> {
+    // 페이지 컨텍스트에서 실행 - 이름 붙은 헬퍼 함수는 번들러가 주입하는 코드 때문에 쓰지 않음
+    const { viewport, candidates } = await page.evaluate(() => {
+      const width = window.innerWidth;
+      const height = window.innerHeight;
+      const keyword = /logo|로고/i;
+      const found: LogoCandidate[] = [];
+
+      for (const el of Array.from(document.querySelectorAll('img, svg, a[href], [class*="logo" i], [id*="logo" i]'))) {
+        if (found.length >= 50) break;
+        const rect = el.getBoundingClientRect();
+        const top = rect.top + window.scrollY;
+        if (rect.width < 8 || rect.height < 8 || top > height * 2) continue;
+        const style = window.getComputedStyle(el);
+        if (style.visibility === 'hidden' || style.display === 'none' || parseFloat(style.opacity) === 0) continue;
+
+        const link = el.closest('a[href]') as HTMLAnchorElement | null;
+        let homeLink = false;
+        if (link) {
+          try {
+            const target = new URL(link.getAttribute('href') || '', location.href);
+            homeLink = target.origin === location.origin && /^\/(index\.\w+)?$/.test(target.pathname) && !target.search;
+          } catch {
+            homeLink = false;
+          }
+        }
+        const attributes = [el.getAttribute('src'), el.getAttribute('alt'), el.getAttribute('class'), el.id].join(' ');
+        const matchesKeyword = keyword.test(attributes) || !!el.parentElement?.closest('[class*="logo" i], [id*="logo" i]');
+        if (!matchesKeyword && !homeLink) continue;
+
+        const tag = el.tagName.toLowerCase();
+        const classes = Array.from(el.classList).slice(0, 2);
+        found.push({
+          selector: el.id ? `${tag}#${el.id}` : [tag, ...classes].join('.'),
+          tag,
+          src: el.getAttribute('src') || undefined,
+          alt: el.getAttribute('alt') || undefined,
+          keyword: matchesKeyword,
+          homeLink,
+          inHeader: !!el.closest('header, #header, .header, [role="banner"]'),
+          rect: { x: Math.round(rect.left + window.scrollX), y: Math.round(top), width: Math.round(rect.width), height: Math.round(rect.height) }
+        });
+      }
+
+      return { viewport: { width, height }, candidates: found };
+    });
+
+    return selectLogo(candidates, viewport) || undefined;
+  }
+
+  /**
+   * 헤더/내비게이션 밖의 링크와 버튼 수집 - 중첩된 경우 바깥 요소(실제 클릭 영역)만
+   * CTA 판정은 summarizeCtas
+   */
+  private async detectCtas(page: Page): Promise<CtaReport> {
+    const { viewport, candidates } = await page.evaluate(() => {
+      const clickable = 'a[href], button, input[type="submit"], input[type="button"], [role="button"], [onclick]';
+      const found: CtaCandidate[] = [];
+
+      for (const el of Array.from(document.querySelectorAll(clickable))) {
+        if (found.length >= 300) break;
+        if (el.parentElement?.closest(clickable)) continue;
+        if (el.closest('header, nav, #header, .header, [role="banner"], [role="navigation"]')) continue;
+
+        const rect = el.getBoundingClientRect();
+        if (rect.width < 2 || rect.height < 2) continue;
+        const style = window.getComputedStyle(el);
+        if (style.visibility === 'hidden' || style.display === 'none' || parseFloat(style.opacity) === 0) continue;
+
+        const text = ((el as HTMLElement).innerText || (el as HTMLInputElement).value || el.getAttribute('aria-label')
+          || el.querySelector('img[alt]')?.getAttribute('alt') || '')
+          .replace(/\s+/g, ' ')
+          .trim();
+        if (!text || text.length > 40) continue;
+
+        const tag = el.tagName.toLowerCase();
+        const classes = Array.from(el.classList).slice(0, 2);
+        found.push({
+          selector: el.id ? `${tag}#${el.id}` : [tag, ...classes].join('.'),
+          tag,
+          text,
+          rect: {
+            x: Math.round(rect.left + window.scrollX),
+            y: Math.round(rect.top + window.scrollY),
+            width: Math.round(rect.width),
+            height: Math.round(rect.height)
+          }
+        });
+      }
+
+      return { viewport: { width: window.innerWidth, height: window.innerHeight }, candidates: found };
+    });
+
+    return summarizeCtas(candidates, viewport);
+  }
+
+  /**
+   * axe-core를 페이지에 주입해 WCAG A/AA 규칙 검사 - 위반마다 셀렉터와 첫 요소 위치 기록
+   * 검사가 실패해도 캡처는 계속 진행
+   */
+  private async auditAccessibility(page: Page): Promise<AccessibilityMetrics | undefined> {
+    try {
+      await page.evaluate(axe.source);
+      const result: AxeAuditResult = await page.evaluate(async (options: axe.RunOptions) => {
+        const results = await (window as any).axe.run(document, options);
+        return {
+          passes: results.passes.length,
+          violations: results.violations.map((violation: any) => {
+            // iframe/shadow DOM 안의 요소는 셀렉터 배열 - 위치는 문서 안 요소만 측정
+            const targets: string[] = violation.nodes.map((node: any) => node.target.flat().join(' >>> '));
+            const selector = violation.nodes[0]?.target.length === 1 ? violation.nodes[0].target[0] : null;
+            const first = typeof selector === 'string' ? document.querySelector(selector) : null;
+            const rect = first?.getBoundingClientRect();
+            return {
+              id: violation.id,
+              impact: violation.impact,
+              description: violation.description,
+              help: violation.help,
+              helpUrl: violation.helpUrl,
+              nodes: violation.nodes.length,
+              targets,
+              rect: rect && rect.width > 0 && rect.height > 0 ? {
+                x: Math.round(rect.left + window.scrollX),
+                y: Math.round(rect.top + window.scrollY),
+                width: Math.round(rect.width),
+                height: Math.round(rect.height)
+              } : undefined
+            };
+          })
+        };
+      }, AXE_RUN_OPTIONS);
+
+      return summarizeAccessibility(result);
+    } catch (error) {
+      console.warn('Accessibility audit failed:', error);
+      return undefined;
+    }
+  }
+
   private async executeActions(page: Page, actions: ScreenshotConfig['actions']): Promise<void> {
     if (!actions) return;
 
@@ -472,9 +932,14 @@ export class PuppeteerScreenshot {
     return results;
   }
 
+  /**
+   * 구매 플로우 페이지 캡처 - steps로 필요한 단계만 캡처 (홈을 이미 캡처한 경우 등)
+   * 클릭 실패 시 해당 단계는 success: false
+   */
   async capturePurchaseFlow(
     baseUrl: string,
-    platform?: 'cafe24' | 'imweb' | 'unknown'
+    platform?: 'cafe24' | 'imweb' | 'unknown',
+    options: { steps?: Array<'home' | 'product' | 'cart'>; config?: ScreenshotConfig } = {}
   ): Promise<{
     home?: ScreenshotResult;
     product?: ScreenshotResult;
@@ -482,12 +947,13 @@ export class PuppeteerScreenshot {
     checkout?: ScreenshotResult;
   }> {
     const flow: any = {};
+    const steps = options.steps || ['home', 'product', 'cart'];
+    const baseConfig: ScreenshotConfig = options.config || { fullPage: true, waitFor: 2000 };
 
     // Home page
-    flow.home = await this.capture(baseUrl, {
-      fullPage: true,
-      waitFor: 2000
-    });
+    if (steps.includes('home')) {
+      flow.home = await this.capture(baseUrl, baseConfig);
+    }
 
     // Product page - platform specific selectors
     const productSelectors = {
@@ -497,15 +963,16 @@ export class PuppeteerScreenshot {
     };
 
     const productConfig: ScreenshotConfig = {
-      fullPage: true,
-      waitFor: 2000,
+      ...baseConfig,
       actions: [
         { type: 'click', selector: productSelectors[platform || 'unknown'] },
         { type: 'wait', value: 3000 }
       ]
     };
 
-    flow.product = await this.capture(baseUrl, productConfig);
+    if (steps.includes('product')) {
+      flow.product = await this.capture(baseUrl, productConfig);
+    }
 
     // Cart page
     const cartSelectors = {
@@ -515,15 +982,16 @@ export class PuppeteerScreenshot {
     };
 
     const cartConfig: ScreenshotConfig = {
-      fullPage: true,
-      waitFor: 2000,
+      ...baseConfig,
       actions: [
         { type: 'click', selector: cartSelectors[platform || 'unknown'] },
         { type: 'wait', value: 3000 }
       ]
     };
 
-    flow.cart = await this.capture(baseUrl, cartConfig);
+    if (steps.includes('cart')) {
+      flow.cart = await this.capture(baseUrl, cartConfig);
+    }
 
     return flow;
   }
@@ -7,6 +7,8 @@ import { v4 as uuidv4 } from 'uuid';
 import { tmpdir } from 'os';
 import { AuditResult, CheckResult } from '../types/index.js';
 import { createPuppeteerPDFGenerator } from './puppeteer-pdf.js';
+import { formatMeasuredValue, formatThreshold } from './rules-engine.js';
+import { formatAccessibilityViolation } from './accessibility.js';
 
 export interface ReportOptions {
   includeScreenshots?: boolean;
@@ -201,6 +203,18 @@ export class Reporter {
 
     doc.moveDown();
 
+    // 맞춤 가중치 - 총점이 기본과 다른 이유 표시
+    if (result.weightMultipliers && Object.keys(result.weightMultipliers).length > 0 && result.appliedWeights) {
+      doc.fontSize(12)
+         .font('Helvetica')
+         .text('맞춤 가중치 적용 (카테고리별 총점 반영 비율):', { underline: true });
+      Object.entries(result.appliedWeights).forEach(([id, percent]) => {
+        const multiplier = result.weightMultipliers?.[id];
+        doc.text(`  • ${this.getCategoryName(id)}: ${percent}%${multiplier !== undefined ? ` (×${multiplier})` : ''}`);
+      });
+      doc.moveDown();
+    }
+
     result.checks.forEach(check => {
       const barWidth = (check.score / 10) * 400;
       const y = doc.y;
@@ -233,6 +247,18 @@ export class Reporter {
 
     doc.moveDown();
 
+    // 맞춤 가중치 - 총점이 기본과 다른 이유 표시
+    if (result.weightMultipliers && Object.keys(result.weightMultipliers).length > 0 && result.appliedWeights) {
+      doc.fontSize(12)
+         .font('Helvetica')
+         .text('맞춤 가중치 적용 (카테고리별 총점 반영 비율):', { underline: true });
+      Object.entries(result.appliedWeights).forEach(([id, percent]) => {
+        const multiplier = result.weightMultipliers?.[id];
+        doc.text(`  • ${this.getCategoryName(id)}: ${percent}%${multiplier !== undefined ? ` (×${multiplier})` : ''}`);
+      });
+      doc.moveDown();
+    }
+
     result.checks.forEach(check => {
       // 카테고리 헤더
       doc.fontSize(16)
@@ -244,6 +270,24 @@ export class Reporter {
          .fontSize(12)
          .font('Helvetica');
 
+      // 점수 신뢰도
+      if (check.confidence !== undefined) {
+        doc.fillColor('gray')
+           .text(`신뢰도: ${Math.round(check.confidence * 100)}%${check.confidenceLevel === 'low' ? ' (낮음 - 추정치)' : ''}`)
+           .fillColor('black');
+        doc.moveDown(0.5);
+      }
+
+      // 규칙별 배점
+      if (check.ruleOutcomes && check.ruleOutcomes.length > 0) {
+        doc.text('규칙별 배점:', { underline: true });
+        check.ruleOutcomes.forEach(outcome => {
+          const awarded = Math.round(outcome.pointsAwarded * 10) / 10;
+          doc.text(`  • ${outcome.description}: ${awarded}/${outcome.pointsPossible}점 (측정값 ${formatMeasuredValue(outcome)}, 기준 ${formatThreshold(outcome.threshold)})`);
+        });
+        doc.moveDown(0.5);
+      }
+
       // 메트릭스
       if (check.metrics && Object.keys(check.metrics).length > 0) {
         doc.text('측정값:', { underline: true });
@@ -404,6 +448,15 @@ export class Reporter {
         .insight { background: #f8f9fa; padding: 10px; border-radius: 5px; margin: 5px 0; font-size: 0.9rem; }
         .metrics { margin-top: 10px; font-size: 0.85rem; color: #666; }
         .metric { display: inline-block; margin-right: 15px; }
+        .rule-outcomes { width: 100%; margin-top: 10px; font-size: 0.85rem; color: #666; border-collapse: collapse; }
+        .rule-outcomes td { padding: 3px 0; border-top: 1px solid #eee; }
+        .rule-points { text-align: right; font-weight: bold; }
+        .violations { margin-top: 10px; font-size: 0.85rem; color: #666; }
+        .violation { display: flex; gap: 8px; align-items: center; margin: 4px 0; }
+        .violation img { width: 80px; height: 50px; object-fit: contain; border: 1px solid #eee; border-radius: 4px; }
+        .category-card.low-confidence { border: 1px dashed #bbb; box-shadow: none; background: #fafafa; }
+        .confidence { font-size: 0.8rem; color: #999; }
+        .weights { margin-top: 20px; font-size: 0.85rem; color: #666; }
         .purchase-flow { background: white; border-radius: 10px; padding: 30px; margin: 30px 0; box-shadow: 0 5px 15px rgba(0,0,0,0.08); }
         .flow-steps { display: flex; justify-content: space-around; margin-top: 20px; }
         .flow-step { text-align: center; padding: 15px; }
@@ -427,6 +480,13 @@ export class Reporter {
         <div class="score-hero">
             <div class="total-score">${totalScore}/100</div>
             <div class="score-grade">${scoreGrade}</div>
+            ${result.weightMultipliers && Object.keys(result.weightMultipliers).length > 0 && result.appliedWeights ? `
+            <div class="weights">
+                맞춤 가중치 적용:
+                ${Object.entries(result.appliedWeights).map(([id, percent]) =>
+                  `<span class="metric">${this.getCategoryName(id)} ${percent}%${result.weightMultipliers?.[id] !== undefined ? ` (×${result.weightMultipliers[id]})` : ''}</span>`
+                ).join('')}
+            </div>` : ''}
         </div>
 
         <div class="categories">
@@ -451,7 +511,7 @@ export class Reporter {
     const fillWidth = check.score * 10;
 
     return `
-<div class="category-card">
+<div class="category-card${check.confidenceLevel === 'low' ? ' low-confidence' : ''}">
     <div class="category-header">
         <span class="category-name">${this.getCategoryName(check.id)}</span>
         <span class="category-score" style="color: ${scoreColor}">${check.score}/10</span>
@@ -459,12 +519,33 @@ export class Reporter {
     <div class="score-bar">
         <div class="score-fill" style="width: ${fillWidth}%; background: ${scoreColor}"></div>
     </div>
+    ${check.confidence !== undefined ? `
+    <div class="confidence">신뢰도 ${Math.round(check.confidence * 100)}%${check.confidenceLevel === 'low' ? ' (추정치)' : ''}</div>` : ''}
+    ${check.ruleOutcomes && check.ruleOutcomes.length > 0 ? `
+    <table class="rule-outcomes">
+        ${check.ruleOutcomes.map(outcome => `
+        <tr>
+            <td>${outcome.description}</td>
+            <td>${formatMeasuredValue(outcome)}</td>
+            <td>${formatThreshold(outcome.threshold)}</td>
+            <td class="rule-points">${Math.round(outcome.pointsAwarded * 10) / 10}/${outcome.pointsPossible}</td>
+        </tr>`).join('')}
+    </table>` : ''}
     ${check.metrics ? `
     <div class="metrics">
         ${Object.entries(check.metrics).map(([k, v]) => 
           `<span class="metric">${k}: ${v}</span>`
         ).join('')}
     </div>` : ''}
+    ${check.evidence?.accessibility?.violations?.length > 0 ? `
+    <div class="violations">
+        <div>접근성 위반 (axe-core 규칙 통과율 ${check.evidence!.accessibility.score}%)</div>
+        ${check.evidence!.accessibility.violations.slice(0, 5).map((violation: any) => `
+        <div class="violation">
+            ${violation.screenshot ? `<img src="${violation.screenshot}" alt="${violation.id}">` : ''}
+            <span>${formatAccessibilityViolation(violation)}</span>
+        </div>`).join('')}
+    </div>` : ''}
     ${check.insights && check.insights.length > 0 ? `
     <div class="insights">
         ${check.insights.map(insight => 
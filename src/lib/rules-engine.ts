@@ -0,0 +1,364 @@
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+import { parse } from 'yaml';
+import { z } from 'zod';
+import { ValidationError } from './errors.js';
+import { RuleOutcome, RuleThreshold } from '../types/index.js';
+
+export type { RuleOutcome, RuleThreshold };
+
+// Zod 스키마 정의 - config/rules.yaml 검증용
+
+export const CATEGORY_IDS = [
+  'speed',
+  'firstView',
+  'bi',
+  'navigation',
+  'uspPromo',
+  'visuals',
+  'trust',
+  'mobile',
+  'purchaseFlow',
+  'seoAnalytics'
+] as const;
+
+export type CategoryId = typeof CATEGORY_IDS[number];
+
+export const VERTICALS = ['beauty', 'fashion', 'food', 'electronics'] as const;
+
+/**
+ * 요청별 카테고리 가중치 배수 (예: { mobile: 2, seoAnalytics: 0.5 })
+ */
+export type WeightMultipliers = Partial<Record<CategoryId, number>>;
+
+const RuleSchema = z.object({
+  description: z.string(),
+  metric: z.string().optional(),
+  points: z.union([z.number().min(0), z.array(z.number().min(0))]),
+  thresholds: z.array(z.number()).min(1).optional(),
+  min: z.number().optional(),
+  max: z.number().optional(),
+  equals: z.union([z.boolean(), z.number(), z.string()]).optional(),
+  keywords: z.array(z.string()).min(1).optional(),
+  anyOf: z.array(z.string()).min(1).optional(),
+  patterns: z.array(z.string()).min(1).optional(),
+  // 측정 파라미터 - 워커가 측정값을 계산할 때 사용 (예: bi.primaryReuseRatio의 cellShare)
+  params: z.record(z.number()).optional()
+}).superRefine((rule, ctx) => {
+  if (rule.thresholds) {
+    const points = Array.isArray(rule.points) ? rule.points : null;
+    if (!points || points.length !== rule.thresholds.length + 1) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'points must be an array with one more entry than thresholds'
+      });
+    } else if (!isMonotonic(points)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'points must be monotonic' });
+    }
+    if (!rule.thresholds.every((t, i, arr) => i === 0 || arr[i - 1] < t)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'thresholds must be ascending' });
+    }
+  } else if (Array.isArray(rule.points)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'points array requires thresholds' });
+  }
+
+  if (rule.metric) {
+    const matchers = [
+      rule.thresholds !== undefined,
+      rule.min !== undefined || rule.max !== undefined,
+      rule.equals !== undefined,
+      !!(rule.keywords || rule.anyOf || rule.patterns)
+    ].filter(Boolean).length;
+    if (matchers !== 1) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'measured rule needs exactly one of thresholds, min/max, equals or keywords/anyOf/patterns'
+      });
+    }
+  }
+
+  rule.patterns?.forEach(pattern => {
+    try {
+      new RegExp(pattern);
+    } catch {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `invalid pattern: ${pattern}` });
+    }
+  });
+});
+
+const CategorySchema = z.object({
+  description: z.string(),
+  weight: z.number().positive(),
+  rules: z.record(RuleSchema).refine(rules => Object.keys(rules).length > 0, {
+    message: 'category needs at least one rule'
+  })
+});
+
+const RulesConfigSchema = z.object({
+  profile: z.object({
+    name: z.string().regex(/^[a-z0-9-]+$/, 'profile name must be lowercase kebab-case'),
+    version: z.number().int().positive(),
+    description: z.string().optional(),
+    // 업종 프로파일 - signals는 HTML 자동 감지에 쓰이는 업종 특징 단어
+    vertical: z.enum(VERTICALS).optional(),
+    signals: z.array(z.string()).min(1).optional()
+  }).default({ name: 'default', version: 1 }),
+  // LLM 프롬프트의 한국어 키워드 그룹 교체 (cta, category, usp, trust, navigation)
+  keywords: z.record(z.array(z.string()).min(1)).optional(),
+  settings: z.object({
+    maxCategoryScore: z.number().positive().default(10),
+    unmeasuredRatio: z.number().min(0).max(1).default(0.5)
+  }).default({}),
+  ...Object.fromEntries(CATEGORY_IDS.map(id => [id, CategorySchema])) as Record<CategoryId, typeof CategorySchema>,
+  improvements: z.record(z.record(z.string())).optional()
+});
+
+export type RuleConfig = z.infer<typeof RuleSchema>;
+export type CategoryConfig = z.infer<typeof CategorySchema>;
+export type RulesConfig = z.infer<typeof RulesConfigSchema>;
+
+/**
+ * 카테고리 채점 결과
+ */
+export interface CategoryEvaluation {
+  score: number;
+  source: 'rule' | 'ai' | 'hybrid';
+  outcomes: RuleOutcome[];
+}
+
+export const DEFAULT_RULES_PATH = fileURLToPath(new URL('../../config/rules.yaml', import.meta.url));
+
+/**
+ * rules.yaml 로드 및 검증
+ */
+export function loadRulesConfig(path: string = process.env.RULES_CONFIG_PATH || DEFAULT_RULES_PATH): RulesConfig {
+  const raw = parse(readFileSync(path, 'utf-8'));
+  return parseRulesConfig(raw, path);
+}
+
+/**
+ * 파싱된 객체 검증
+ */
+export function parseRulesConfig(raw: unknown, source: string = 'rules config'): RulesConfig {
+  const result = RulesConfigSchema.safeParse(raw);
+  if (!result.success) {
+    throw new ValidationError(`Invalid scoring rules in ${source}`, result.error.issues.map(issue => ({
+      path: issue.path.join('.'),
+      message: issue.message
+    })));
+  }
+  return result.data;
+}
+
+/**
+ * 규칙 기반 채점 엔진
+ */
+export class RulesEngine {
+  constructor(private readonly config: RulesConfig) {}
+
+  getConfig(): RulesConfig {
+    return this.config;
+  }
+
+  /**
+   * 채점 프로파일 식별자 (예: default@1) - 실행 결과에 기록
+   */
+  getProfileKey(): string {
+    return `${this.config.profile.name}@${this.config.profile.version}`;
+  }
+
+  getCategoryIds(): CategoryId[] {
+    return [...CATEGORY_IDS];
+  }
+
+  getWeight(categoryId: CategoryId): number {
+    return this.config[categoryId].weight;
+  }
+
+  /**
+   * 카테고리 채점 - metric이 있는 규칙은 측정값으로, 없는 규칙은 AI 점수 비율로 배점
+   */
+  evaluateCategory(categoryId: CategoryId, measuredData: any, aiScore?: number): CategoryEvaluation {
+    const category = this.config[categoryId];
+    const { maxCategoryScore } = this.config.settings;
+
+    const outcomes = Object.entries(category.rules).map(([ruleId, rule]) =>
+      rule.metric
+        ? this.evaluateMeasuredRule(ruleId, rule, getPath(measuredData, rule.metric))
+        : this.evaluateAiRule(ruleId, rule, aiScore)
+    );
+
+    const possible = outcomes.reduce((sum, o) => sum + o.pointsPossible, 0);
+    const awarded = outcomes.reduce((sum, o) => sum + o.pointsAwarded, 0);
+    const score = possible > 0 ? Math.round((awarded / possible) * maxCategoryScore) : 0;
+
+    const ruleCount = outcomes.filter(o => o.source === 'rule').length;
+    const source = ruleCount === outcomes.length ? 'rule' : ruleCount === 0 ? 'ai' : 'hybrid';
+
+    return { score, source, outcomes };
+  }
+
+  /**
+   * 프로파일 weight에 요청별 배수를 곱한 실제 가중치
+   */
+  getEffectiveWeights(multipliers: WeightMultipliers = {}): Record<CategoryId, number> {
+    const weights = Object.fromEntries(
+      CATEGORY_IDS.map(id => [id, this.config[id].weight * (multipliers[id] ?? 1)])
+    ) as Record<CategoryId, number>;
+
+    if (Object.values(weights).every(weight => weight <= 0)) {
+      throw new ValidationError('At least one category weight must be positive', multipliers);
+    }
+    return weights;
+  }
+
+  /**
+   * 카테고리 점수를 weight로 가중 평균하여 100점 만점으로 환산
+   */
+  calculateTotal(categoryScores: Record<string, number>, multipliers: WeightMultipliers = {}): number {
+    const { maxCategoryScore } = this.config.settings;
+    const weights = this.getEffectiveWeights(multipliers);
+    let weighted = 0;
+    let weightSum = 0;
+
+    for (const id of CATEGORY_IDS) {
+      if (categoryScores[id] === undefined) continue;
+      weighted += (categoryScores[id] / maxCategoryScore) * weights[id];
+      weightSum += weights[id];
+    }
+
+    return weightSum > 0 ? Math.round((weighted / weightSum) * 100) : 0;
+  }
+
+  private evaluateMeasuredRule(ruleId: string, rule: RuleConfig, value: unknown): RuleOutcome {
+    const pointsPossible = maxPoints(rule);
+    const base = {
+      ruleId,
+      description: rule.description,
+      source: 'rule' as const,
+      pointsPossible,
+      threshold: pickThreshold(rule)
+    };
+
+    if (value === undefined || value === null) {
+      return {
+        ...base,
+        pointsAwarded: pointsPossible * this.config.settings.unmeasuredRatio,
+        measured: false
+      };
+    }
+
+    return {
+      ...base,
+      pointsAwarded: awardPoints(rule, value),
+      measuredValue: value,
+      measured: true
+    };
+  }
+
+  private evaluateAiRule(ruleId: string, rule: RuleConfig, aiScore?: number): RuleOutcome {
+    const pointsPossible = maxPoints(rule);
+    const measured = typeof aiScore === 'number';
+    const ratio = measured
+      ? Math.min(Math.max(aiScore / this.config.settings.maxCategoryScore, 0), 1)
+      : this.config.settings.unmeasuredRatio;
+
+    return {
+      ruleId,
+      description: rule.description,
+      source: 'ai',
+      pointsPossible,
+      pointsAwarded: pointsPossible * ratio,
+      measuredValue: measured ? aiScore : undefined,
+      measured
+    };
+  }
+}
+
+/**
+ * 규칙 하나에 대한 배점 계산
+ */
+function awardPoints(rule: RuleConfig, value: unknown): number {
+  if (rule.thresholds && Array.isArray(rule.points)) {
+    const num = Number(value);
+    if (Number.isNaN(num)) return 0;
+    const points = rule.points;
+    const lowerIsBetter = points[0] >= points[points.length - 1];
+    const bucket = rule.thresholds.filter(t => lowerIsBetter ? num > t : num >= t).length;
+    return points[bucket];
+  }
+
+  const points = maxPoints(rule);
+
+  if (rule.min !== undefined || rule.max !== undefined) {
+    const num = Number(value);
+    if (Number.isNaN(num)) return 0;
+    if (rule.min !== undefined && num < rule.min) return 0;
+    if (rule.max !== undefined && num > rule.max) return 0;
+    return points;
+  }
+
+  if (rule.equals !== undefined) {
+    const matches = typeof rule.equals === 'boolean' ? Boolean(value) === rule.equals : value === rule.equals;
+    return matches ? points : 0;
+  }
+
+  const texts = (Array.isArray(value) ? value : [value]).map(v => String(v).toLowerCase());
+  const needles = [...(rule.keywords || []), ...(rule.anyOf || [])].map(k => k.toLowerCase());
+  if (needles.some(needle => texts.some(text => text.includes(needle)))) return points;
+  if (rule.patterns?.some(pattern => texts.some(text => new RegExp(pattern, 'i').test(text)))) return points;
+  return 0;
+}
+
+function maxPoints(rule: RuleConfig): number {
+  return Array.isArray(rule.points) ? Math.max(...rule.points) : rule.points;
+}
+
+function pickThreshold(rule: RuleConfig): RuleThreshold {
+  const { thresholds, min, max, equals, keywords, anyOf, patterns } = rule;
+  return Object.fromEntries(
+    Object.entries({ thresholds, min, max, equals, keywords, anyOf, patterns }).filter(([, v]) => v !== undefined)
+  );
+}
+
+function isMonotonic(points: number[]): boolean {
+  const ascending = points.every((p, i) => i === 0 || points[i - 1] <= p);
+  const descending = points.every((p, i) => i === 0 || points[i - 1] >= p);
+  return ascending || descending;
+}
+
+/**
+ * 판정 기준을 리포트용 문자열로 변환 (예: "≤ 2.5 / 4", "3 ~ 8")
+ */
+export function formatThreshold(threshold?: RuleThreshold): string {
+  if (!threshold || Object.keys(threshold).length === 0) return '-';
+  if (threshold.thresholds) return threshold.thresholds.join(' / ');
+  if (threshold.min !== undefined && threshold.max !== undefined) return `${threshold.min} ~ ${threshold.max}`;
+  if (threshold.min !== undefined) return `≥ ${threshold.min}`;
+  if (threshold.max !== undefined) return `≤ ${threshold.max}`;
+  if (threshold.equals !== undefined) return `= ${threshold.equals}`;
+  return [...(threshold.keywords || []), ...(threshold.anyOf || []), ...(threshold.patterns || [])].join(', ');
+}
+
+/**
+ * 규칙 측정값을 리포트용 문자열로 변환
+ */
+export function formatMeasuredValue(outcome: RuleOutcome): string {
+  if (outcome.source === 'ai') return 'AI 평가';
+  if (!outcome.measured) return '미측정';
+  const value = outcome.measuredValue;
+  if (Array.isArray(value)) return `${value.length}건`;
+  if (typeof value === 'number') return String(Math.round(value * 1000) / 1000);
+  return String(value);
+}
+
+/**
+ * 'lighthouse.LCP' 형식의 경로로 값 조회
+ */
+function getPath(data: any, path: string): unknown {
+  return path.split('.').reduce((obj, key) => (obj == null ? undefined : obj[key]), data);
+}
+
+export function createRulesEngine(config: RulesConfig): RulesEngine {
+  return new RulesEngine(config);
+}
@@ -0,0 +1,196 @@
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import { parse } from 'yaml';
+import * as cheerio from 'cheerio';
+import { DEFAULT_RULES_PATH, loadRulesConfig, parseRulesConfig, RulesConfig } from './rules-engine.js';
+import { NotFoundError, ValidationError } from './errors.js';
+
+/**
+ * 이름/버전이 부여된 채점 프로파일
+ */
+export interface ScoringProfile {
+  key: string; // name@version
+  name: string;
+  version: number;
+  description?: string;
+  extends?: string; // 상속한 프로파일 name@version
+  config: RulesConfig;
+}
+
+export const DEFAULT_PROFILES_DIR = fileURLToPath(new URL('../../config/profiles', import.meta.url));
+
+// 이전 버전 프로파일 보관 디렉터리 (profilesDir 기준)
+const ARCHIVE_DIR = 'archive';
+
+const PINNED_REF = /^[a-z0-9-]+@\d+$/;
+
+// 업종 자동 감지 시 필요한 최소 특징 단어 수
+const MIN_VERTICAL_SIGNALS = 3;
+
+/**
+ * 기본 프로파일(rules.yaml)과 config/profiles/*.yaml, 보관된 이전 버전(config/profiles/archive) 로드
+ * 변형 프로파일은 extends로 고정한 name@version 위에 덮어쓴 뒤 전체를 다시 검증
+ * 보관 디렉터리에서 extends가 없는 파일은 그 버전의 rules.yaml 전체 스냅샷
+ */
+export function loadScoringProfiles(
+  rulesPath: string = process.env.RULES_CONFIG_PATH || DEFAULT_RULES_PATH,
+  profilesDir: string = process.env.SCORING_PROFILES_DIR || DEFAULT_PROFILES_DIR
+): Map<string, ScoringProfile> {
+  const profiles = new Map<string, ScoringProfile>();
+  register(profiles, loadRulesConfig(rulesPath), rulesPath);
+
+  const pending = new Map<string, any>();
+  for (const [path, raw, archived] of readProfileFiles(profilesDir)) {
+    if (raw.extends === undefined && archived) {
+      register(profiles, parseRulesConfig(raw, path), path);
+    } else if (typeof raw.extends !== 'string' || !PINNED_REF.test(raw.extends)) {
+      // 최신 버전을 따라가면 같은 키가 다른 규칙을 뜻하게 되므로 상속 대상 버전을 고정
+      throw new ValidationError(`Invalid scoring profile in ${path}`, [{ path: 'extends', message: 'extends must pin a profile as name@version' }]);
+    } else {
+      pending.set(path, raw);
+    }
+  }
+
+  // extends 대상이 먼저 등록되어야 하므로 더 이상 진행이 없을 때까지 반복
+  while (pending.size > 0) {
+    let progressed = false;
+    for (const [path, raw] of pending) {
+      const base = profiles.get(raw.extends);
+      if (!base) continue;
+
+      const { extends: _extends, ...overrides } = raw;
+      register(profiles, parseRulesConfig(mergeConfig(base.config, overrides), path), path, base.key);
+      pending.delete(path);
+      progressed = true;
+    }
+    if (!progressed) {
+      const [path, raw] = pending.entries().next().value as [string, any];
+      throw new ValidationError(`Invalid scoring profile in ${path}`, [{ path: 'extends', message: `unknown profile: ${raw.extends}` }]);
+    }
+  }
+
+  return profiles;
+}
+
+/**
+ * 프로파일 디렉터리와 archive 하위 디렉터리의 YAML 파일 - [경로, 내용, 보관 여부]
+ */
+function readProfileFiles(profilesDir: string): Array<[string, any, boolean]> {
+  const files: Array<[string, any, boolean]> = [];
+  for (const [dir, archived] of [[profilesDir, false], [join(profilesDir, ARCHIVE_DIR), true]] as const) {
+    if (!existsSync(dir)) continue;
+    for (const file of readdirSync(dir).filter(f => /\.ya?ml$/.test(f)).sort()) {
+      const path = join(dir, file);
+      const raw = parse(readFileSync(path, 'utf-8'));
+      if (!raw?.profile?.name || raw.profile.version === undefined) {
+        throw new ValidationError(`Invalid scoring profile in ${path}`, [{ path: 'profile', message: 'profile name and version are required' }]);
+      }
+      files.push([path, raw, archived]);
+    }
+  }
+  return files;
+}
+
+function register(profiles: Map<string, ScoringProfile>, config: RulesConfig, source: string, base?: string): void {
+  const { name, version, description } = config.profile;
+  const key = `${name}@${version}`;
+  if (profiles.has(key)) {
+    throw new ValidationError(`Duplicate scoring profile ${key} in ${source}`);
+  }
+  profiles.set(key, { key, name, version, description, extends: base, config });
+}
+
+/**
+ * name@version은 정확히, name만 주면 해당 이름의 최신 버전을 찾음
+ */
+function findProfile(profiles: Map<string, ScoringProfile>, ref: string): ScoringProfile | undefined {
+  if (ref.includes('@')) {
+    return profiles.get(ref);
+  }
+  return Array.from(profiles.values())
+    .filter(profile => profile.name === ref)
+    .sort((a, b) => b.version - a.version)[0];
+}
+
+/**
+ * 객체는 재귀 병합, 배열과 원시값은 교체
+ */
+function mergeConfig(base: any, overrides: any): any {
+  if (!isPlainObject(base) || !isPlainObject(overrides)) {
+    return overrides === undefined ? base : overrides;
+  }
+  const merged: Record<string, any> = { ...base };
+  for (const [key, value] of Object.entries(overrides)) {
+    merged[key] = mergeConfig(base[key], value);
+  }
+  return merged;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+let profilesInstance: Map<string, ScoringProfile> | null = null;
+
+/**
+ * 시작 시 모든 프로파일 로드 - 설정 오류가 있으면 여기서 실패
+ */
+export function setupScoringProfiles(): Map<string, ScoringProfile> {
+  if (!profilesInstance) {
+    profilesInstance = loadScoringProfiles();
+    getScoringProfile(); // SCORING_PROFILE 기본값도 시작 시 검증
+  }
+  return profilesInstance;
+}
+
+/**
+ * 프로파일 조회 - 지정하지 않으면 SCORING_PROFILE 환경 변수 또는 default
+ */
+export function getScoringProfile(ref: string = process.env.SCORING_PROFILE || 'default'): ScoringProfile {
+  const profile = findProfile(profilesInstance || setupScoringProfiles(), ref);
+  if (!profile) {
+    throw new NotFoundError('Scoring profile', ref);
+  }
+  return profile;
+}
+
+export function listScoringProfiles(): ScoringProfile[] {
+  return Array.from((profilesInstance || setupScoringProfiles()).values());
+}
+
+/**
+ * 페이지 텍스트의 업종 특징 단어(profile.signals)로 업종 프로파일 감지
+ * 가장 많이 일치한 업종을 고르며, 기준 미달이면 undefined
+ */
+export function detectVerticalProfile(html: string): ScoringProfile | undefined {
+  const $ = cheerio.load(html);
+  $('script, style, noscript').remove();
+  const text = [
+    $('title').text(),
+    $('meta[name="description"]').attr('content') || '',
+    $('meta[name="keywords"]').attr('content') || '',
+    $('body').text()
+  ].join(' ').toLowerCase();
+
+  // 같은 이름은 최신 버전만 비교
+  const latest = new Map<string, ScoringProfile>();
+  for (const profile of listScoringProfiles().filter(p => p.config.profile.vertical)) {
+    const current = latest.get(profile.name);
+    if (!current || current.version < profile.version) {
+      latest.set(profile.name, profile);
+    }
+  }
+
+  let detected: ScoringProfile | undefined;
+  let bestHits = MIN_VERTICAL_SIGNALS - 1;
+  for (const profile of latest.values()) {
+    const signals = profile.config.profile.signals || [];
+    const hits = signals.filter(signal => text.includes(signal.toLowerCase())).length;
+    if (hits > bestHits) {
+      detected = profile;
+      bestHits = hits;
+    }
+  }
+  return detected;
+}
@@ -0,0 +1,194 @@
+import * as cheerio from 'cheerio';
+import { RobotsTxtInfo, SEOMetrics, SitemapInfo, StructuredDataItem } from '../types/domain.types.js';
+
+// 타입별 필수 필드 - "a|b"는 둘 중 하나, 배열 값은 하나라도 있으면 통과
+const REQUIRED_FIELDS: Record<string, string[]> = {
+  Organization: ['name', 'url'],
+  Product: ['name', 'image', 'offers.price|offers.lowPrice', 'offers.priceCurrency'],
+  BreadcrumbList: ['itemListElement.position', 'itemListElement.name|itemListElement.item']
+};
+
+// Organization 필수 필드로 검사하는 하위 타입
+const ORGANIZATION_TYPES = ['Organization', 'Corporation', 'OnlineStore', 'OnlineBusiness', 'Store', 'LocalBusiness'];
+
+const CRAWL_FILE_TIMEOUT = 5000;
+
+/**
+ * JSON-LD와 microdata 항목을 찾아 schema.org 타입별 필수 필드 검증
+ * JSON-LD는 배열과 @graph를 펼쳐서 각 항목을 따로 기록
+ */
+export function analyzeStructuredData(html: string): StructuredDataItem[] {
+  const $ = cheerio.load(html);
+  const items: StructuredDataItem[] = [];
+
+  $('script[type="application/ld+json"]').each((_, el) => {
+    let data: unknown;
+    try {
+      data = JSON.parse($(el).html() || '');
+    } catch (error) {
+      items.push({ type: 'unknown', format: 'json-ld', validated: false, valid: false, missing: [], error: 'invalid JSON' });
+      return;
+    }
+    for (const node of flattenJsonLd(data)) {
+      const types = Array.isArray(node['@type']) ? node['@type'] : [node['@type']];
+      for (const type of types.filter((t): t is string => typeof t === 'string')) {
+        items.push(validateItem(type, 'json-ld', node));
+      }
+    }
+  });
+
+  // 다른 항목의 속성이 아닌 최상위 itemscope만
+  $('[itemscope][itemtype]').not('[itemprop]').each((_, el) => {
+    const type = schemaType($(el).attr('itemtype') || '');
+    if (type) {
+      items.push(validateItem(type, 'microdata', readMicrodata($, el)));
+    }
+  });
+
+  return items;
+}
+
+function flattenJsonLd(data: unknown): Record<string, any>[] {
+  if (Array.isArray(data)) {
+    return data.flatMap(flattenJsonLd);
+  }
+  if (!data || typeof data !== 'object') {
+    return [];
+  }
+  const node = data as Record<string, any>;
+  return Array.isArray(node['@graph']) ? node['@graph'].flatMap(flattenJsonLd) : [node];
+}
+
+function validateItem(type: string, format: StructuredDataItem['format'], data: Record<string, any>): StructuredDataItem {
+  const fields = REQUIRED_FIELDS[ORGANIZATION_TYPES.includes(type) ? 'Organization' : type];
+  if (!fields) {
+    return { type, format, validated: false, valid: true, missing: [] };
+  }
+  const missing = fields.filter(field => !field.split('|').some(path => hasValue(data, path)));
+  return { type, format, validated: true, valid: missing.length === 0, missing };
+}
+
+function hasValue(data: unknown, path: string): boolean {
+  const values = path.split('.').reduce<unknown[]>((current, key) => current
+    .flatMap(value => (Array.isArray(value) ? value : [value]))
+    .map(value => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined)), [data]);
+  return values.some(value => value !== undefined && value !== null && value !== '' && !(Array.isArray(value) && value.length === 0));
+}
+
+/**
+ * itemscope 요소의 속성을 객체로 변환 - 중첩 itemscope는 하위 객체, 같은 속성이 여러 번이면 배열
+ */
+function readMicrodata($: cheerio.CheerioAPI, scope: any): Record<string, any> {
+  const data: Record<string, any> = {};
+  $(scope).find('[itemprop]').each((_, el) => {
+    // 더 안쪽 항목에 속한 속성은 그 항목에서 읽음
+    if ($(el).parent().closest('[itemscope]')[0] !== scope) return;
+
+    const $el = $(el);
+    const value = $el.is('[itemscope]')
+      ? readMicrodata($, el)
+      : $el.attr('content') ?? $el.attr('href') ?? $el.attr('src') ?? $el.attr('datetime') ?? $el.text().trim();
+    for (const name of ($el.attr('itemprop') || '').split(/\s+/).filter(Boolean)) {
+      data[name] = data[name] === undefined ? value : ([] as any[]).concat(data[name], value);
+    }
+  });
+  return data;
+}
+
+function schemaType(itemtype: string): string | undefined {
+  return itemtype.trim().split(/\s+/)[0]?.split('/').filter(Boolean).pop();
+}
+
+/**
+ * seoAnalytics 규칙 입력 (seo.*) - 가져오지 못한 항목은 undefined (미측정)
+ */
+export function summarizeSeoAudit(metrics: SEOMetrics): {
+  validStructuredData?: number;
+  robotsTxt?: boolean;
+  sitemap?: boolean;
+} {
+  return {
+    // 필수 필드를 모두 갖춘 검증 대상 타입 수 (같은 타입이 여러 번 있어도 1)
+    validStructuredData: metrics.structuredData
+      ? new Set(metrics.structuredData.filter(item => item.validated && item.valid).map(item => item.type)).size
+      : undefined,
+    robotsTxt: metrics.robots ? metrics.robots.found && !metrics.robots.disallowsAll : undefined,
+    sitemap: metrics.sitemap?.found
+  };
+}
+
+/**
+ * robots.txt 해석 - User-agent: * 그룹의 Disallow: / 여부와 Sitemap 지시어
+ */
+export function parseRobotsTxt(text: string): Omit<RobotsTxtInfo, 'found'> {
+  const sitemaps: string[] = [];
+  let disallowsAll = false;
+  let agents: string[] = [];
+  let inRules = false;
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.replace(/#.*$/, '').trim();
+    const match = line.match(/^([\w-]+)\s*:\s*(.*)$/);
+    if (!match) continue;
+    const [, key, value] = match;
+
+    switch (key.toLowerCase()) {
+      case 'sitemap':
+        sitemaps.push(value);
+        break;
+      case 'user-agent':
+        // 규칙 뒤에 나온 User-agent는 새 그룹
+        if (inRules) {
+          agents = [];
+          inRules = false;
+        }
+        agents.push(value);
+        break;
+      case 'disallow':
+      case 'allow':
+        inRules = true;
+        if (key.toLowerCase() === 'disallow' && value === '/' && agents.includes('*')) {
+          disallowsAll = true;
+        }
+        break;
+    }
+  }
+
+  return { disallowsAll, sitemaps };
+}
+
+/**
+ * robots.txt와 sitemap.xml 확인 - 사이트맵은 robots.txt의 첫 Sitemap, 없으면 /sitemap.xml
+ * 네트워크 오류로 robots.txt를 못 가져오면 robots 없음 (404는 found: false)
+ */
+export async function auditCrawlFiles(
+  url: string,
+  fetchImpl: typeof fetch = fetch
+): Promise<Pick<SEOMetrics, 'robots' | 'sitemap'>> {
+  const origin = new URL(url).origin;
+  const get = (target: string) => fetchImpl(target, { redirect: 'follow', signal: AbortSignal.timeout(CRAWL_FILE_TIMEOUT) });
+
+  let robots: RobotsTxtInfo | undefined;
+  try {
+    const response = await get(`${origin}/robots.txt`);
+    robots = response.ok
+      ? { found: true, ...parseRobotsTxt(await response.text()) }
+      : { found: false, disallowsAll: false, sitemaps: [] };
+  } catch (error) {
+    console.warn('robots.txt fetch failed:', error);
+  }
+
+  const sitemapUrl = robots?.sitemaps[0] || `${origin}/sitemap.xml`;
+  let sitemap: SitemapInfo | undefined;
+  try {
+    const response = await get(sitemapUrl);
+    const body = response.ok ? await response.text() : '';
+    sitemap = /<(urlset|sitemapindex)[\s>]/.test(body)
+      ? { found: true, url: sitemapUrl, urlCount: (body.match(/<loc>/g) || []).length }
+      : { found: false, url: sitemapUrl };
+  } catch (error) {
+    console.warn('sitemap fetch failed:', error);
+  }
+
+  return { robots, sitemap };
+}
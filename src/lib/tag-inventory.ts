@@ -0,0 +1,188 @@
+import { DetectedTag, TagCategory, TagInventory } from '../types/domain.types.js';
+
+/**
+ * 캡처 중 기록한 요청 (Puppeteer request 이벤트)
+ */
+export interface NetworkRequestRecord {
+  url: string;
+  resourceType: string; // script, image, xhr, fetch, ping 등
+  postData?: string;
+  onLoad: boolean; // 액션/스크롤 전 첫 로드 중 요청
+}
+
+interface TagDefinition {
+  vendor: string;
+  name: string;
+  category: TagCategory;
+  script: RegExp; // 라이브러리 스크립트 URL
+  hit?: RegExp; // 수집(비콘) 요청 URL - 없으면 스크립트 로드를 전송으로 봄
+  account?: RegExp; // 계정 ID (첫 캡처 그룹)
+  accountPrefix?: string;
+  eventParam?: string; // 이벤트 이름 파라미터 (쿼리 또는 줄 단위 POST 본문)
+  pageView?: string; // 로드당 한 번만 전송되어야 하는 이벤트
+  ecommerceEvents?: string[];
+}
+
+const TAG_DEFINITIONS: TagDefinition[] = [
+  {
+    vendor: 'gtm',
+    name: 'Google Tag Manager',
+    category: 'tagManager',
+    script: /googletagmanager\.com\/gtm\.js/,
+    account: /[?&]id=(GTM-[A-Z0-9]+)/
+  },
+  {
+    vendor: 'ga4',
+    name: 'Google Analytics 4',
+    category: 'analytics',
+    script: /googletagmanager\.com\/gtag\/js\?id=G-/,
+    hit: /(?:google-analytics|analytics\.google)\.com\/g\/collect/,
+    account: /[?&](?:id|tid)=(G-[A-Z0-9]+)/,
+    eventParam: 'en',
+    pageView: 'page_view',
+    ecommerceEvents: ['view_item', 'add_to_cart', 'begin_checkout', 'purchase']
+  },
+  {
+    vendor: 'googleAds',
+    name: 'Google Ads',
+    category: 'advertising',
+    script: /googletagmanager\.com\/gtag\/js\?id=AW-/,
+    hit: /googleadservices\.com\/pagead\/conversion\/|googleads\.g\.doubleclick\.net\/pagead\/viewthroughconversion\//,
+    account: /(?:id=AW-|conversion\/)(\d+)/,
+    accountPrefix: 'AW-'
+  },
+  {
+    vendor: 'metaPixel',
+    name: 'Meta Pixel',
+    category: 'advertising',
+    script: /connect\.facebook\.net\/[^/]+\/fbevents\.js/,
+    hit: /facebook\.com\/tr\/?\?/,
+    account: /[?&]id=(\d+)/,
+    eventParam: 'ev',
+    pageView: 'PageView',
+    ecommerceEvents: ['ViewContent', 'AddToCart', 'InitiateCheckout', 'Purchase']
+  },
+  {
+    vendor: 'kakaoPixel',
+    name: 'Kakao Pixel',
+    category: 'advertising',
+    script: /t1\.daumcdn\.net\/kas\/static\/kp\.js/,
+    hit: /bc\.ad\.daum\.net\//,
+    ecommerceEvents: ['viewContent', 'addToCart', 'purchase']
+  },
+  {
+    vendor: 'naverAnalytics',
+    name: 'Naver Analytics',
+    category: 'analytics',
+    script: /wcs\.naver\.net\/wcslog\.js/,
+    hit: /wcs\.naver\.(?:com|net)\/[bm]\?/,
+    account: /[?&]wa=([\w-]+)/
+  },
+  {
+    vendor: 'criteo',
+    name: 'Criteo',
+    category: 'advertising',
+    script: /(?:static\.criteo\.net|dynamic\.criteo\.com)\/js\/ld\/ld\.js/,
+    hit: /(?:sslwidget|widget|dis|gum)\.criteo\.com\//,
+    account: /ld\.js\?a=(\d+)/,
+    ecommerceEvents: ['viewItem', 'viewBasket', 'trackTransaction']
+  },
+  {
+    vendor: 'tiktokPixel',
+    name: 'TikTok Pixel',
+    category: 'advertising',
+    script: /analytics\.tiktok\.com\/i18n\/pixel\/events\.js/,
+    hit: /analytics\.tiktok\.com\/api\/v2\/pixel/,
+    account: /[?&]sdkid=(\w+)/,
+    ecommerceEvents: ['ViewContent', 'AddToCart', 'CompletePayment']
+  }
+];
+
+/**
+ * 캡처 중 요청을 태그별로 분류 - 로드 시 전송 여부, 중복 로드/전송, 빠진 이커머스 이벤트
+ * 이커머스 이벤트는 메인 페이지에서 전송되지 않는 경우가 많아 페이지 스크립트의 이벤트 호출도 설치로 인정
+ */
+export function buildTagInventory(requests: NetworkRequestRecord[], html: string = ''): TagInventory {
+  const tags: DetectedTag[] = [];
+
+  for (const definition of TAG_DEFINITIONS) {
+    const scripts = requests.filter(request => request.resourceType === 'script' && definition.script.test(request.url));
+    const hits = definition.hit ? requests.filter(request => definition.hit!.test(request.url)) : [];
+    if (scripts.length === 0 && hits.length === 0) continue;
+
+    const accountIds = [...new Set([...scripts, ...hits].map(request => readAccount(definition, request.url)).filter((id): id is string => !!id))];
+    const events = [...new Set(hits.flatMap(request => readEvents(definition, request)))];
+
+    tags.push({
+      vendor: definition.vendor,
+      name: definition.name,
+      category: definition.category,
+      accountIds,
+      scriptLoaded: scripts.length > 0,
+      firedOnLoad: (definition.hit ? hits : scripts).some(request => request.onLoad),
+      hits: hits.length,
+      events,
+      duplicates: findDuplicates(definition, scripts, hits),
+      missingEcommerceEvents: (definition.ecommerceEvents || []).filter(event =>
+        !events.includes(event) && !new RegExp(`['"]${event}['"]|\\.${event}\\(`).test(html))
+    });
+  }
+
+  return {
+    tags,
+    requestCount: requests.length,
+    firingCount: tags.filter(tag => tag.category !== 'tagManager' && tag.firedOnLoad).length,
+    duplicateCount: tags.reduce((sum, tag) => sum + tag.duplicates.length, 0)
+  };
+}
+
+function readAccount(definition: TagDefinition, url: string): string | undefined {
+  const id = definition.account && url.match(definition.account)?.[1];
+  return id ? `${definition.accountPrefix || ''}${id}` : undefined;
+}
+
+function readEvents(definition: TagDefinition, request: NetworkRequestRecord): string[] {
+  if (!definition.eventParam) return [];
+  // GA4는 여러 이벤트를 POST 본문에 한 줄씩 묶어서 보냄
+  const lines = [request.url.split('?')[1] || '', ...(request.postData?.split('\n') || [])];
+  return lines
+    .map(line => new URLSearchParams(line).get(definition.eventParam!))
+    .filter((event): event is string => !!event);
+}
+
+/**
+ * 같은 스크립트 URL을 두 번 이상 요청했거나, 같은 계정의 페이지뷰가 첫 로드 중 두 번 이상 전송된 경우
+ */
+function findDuplicates(definition: TagDefinition, scripts: NetworkRequestRecord[], hits: NetworkRequestRecord[]): string[] {
+  const duplicates: string[] = [];
+
+  for (const [url, count] of countBy(scripts.map(request => request.url))) {
+    if (count > 1) {
+      const label = readAccount(definition, url) || new URL(url).pathname.split('/').pop();
+      duplicates.push(`${label} 스크립트 ${count}회 로드`);
+    }
+  }
+
+  if (definition.pageView) {
+    const pageViews = hits
+      .filter(request => request.onLoad)
+      .flatMap(request => readEvents(definition, request)
+        .filter(event => event === definition.pageView)
+        .map(() => readAccount(definition, request.url) || definition.name));
+    for (const [account, count] of countBy(pageViews)) {
+      if (count > 1) {
+        duplicates.push(`${account} ${definition.pageView} ${count}회`);
+      }
+    }
+  }
+
+  return duplicates;
+}
+
+function countBy(values: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    counts.set(value, (counts.get(value) || 0) + 1);
+  }
+  return counts;
+}
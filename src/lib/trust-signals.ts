@@ -0,0 +1,122 @@
+import * as cheerio from 'cheerio';
+import { TrustSignal, TrustSignalType } from '../types/domain.types.js';
+
+type SignalSource = TrustSignal['source'];
+
+interface SignalDefinition {
+  type: TrustSignalType;
+  name: string;
+  pattern: RegExp;
+  sources: SignalSource[]; // 검색 순서 - 처음 찾은 위치를 근거로 기록
+}
+
+const PAYMENT_SOURCES: SignalSource[] = ['script', 'alt', 'footer', 'link', 'text'];
+
+const SIGNAL_DEFINITIONS: SignalDefinition[] = [
+  { type: 'payment', name: 'inicis', pattern: /inicis|이니시스/i, sources: PAYMENT_SOURCES },
+  { type: 'payment', name: 'tosspayments', pattern: /toss\s*pay|토스\s*페이/i, sources: PAYMENT_SOURCES },
+  { type: 'payment', name: 'naverpay', pattern: /naver\s*pay|pay\.naver\.com|네이버\s*페이/i, sources: PAYMENT_SOURCES },
+  { type: 'payment', name: 'kakaopay', pattern: /kakao\s*pay|카카오\s*페이/i, sources: PAYMENT_SOURCES },
+  { type: 'payment', name: 'payco', pattern: /payco|페이코/i, sources: PAYMENT_SOURCES },
+  { type: 'payment', name: 'nicepay', pattern: /nicepay|나이스\s*페이/i, sources: PAYMENT_SOURCES },
+  { type: 'payment', name: 'kcp', pattern: /(?:^|[^a-z])kcp(?:[^a-z]|$)/i, sources: PAYMENT_SOURCES },
+  {
+    type: 'businessRegistration',
+    name: '사업자등록번호',
+    pattern: /사업자\s*(?:등록)?\s*번호\s*[:：]?\s*\d{3}\s*-\s*\d{2}\s*-\s*\d{5}/,
+    sources: ['footer', 'text']
+  },
+  {
+    type: 'mailOrderRegistration',
+    name: '통신판매업 신고번호',
+    pattern: /통신\s*판매\s*(?:업\s*)?신고\s*(?:번호)?\s*[:：]?\s*(?:제\s*)?\d{4}\s*-\s*[가-힣A-Za-z]+\s*-\s*\d+/,
+    sources: ['footer', 'text']
+  },
+  {
+    type: 'escrow',
+    name: '에스크로',
+    pattern: /에스크로|escrow|구매\s*안전\s*서비스|채무\s*지급\s*보증/i,
+    sources: ['footer', 'alt', 'link', 'text', 'script']
+  },
+  // 링크 문구 또는 쿼리를 뺀 주소 (returnUrl 같은 파라미터 제외)
+  { type: 'returnPolicy', name: '교환/반품 안내', pattern: /교환|반품|환불|\/(?:return|refund|exchange)/i, sources: ['link'] },
+  { type: 'reviewWidget', name: '크리마', pattern: /cre\.ma\//i, sources: ['script'] },
+  { type: 'reviewWidget', name: '브이리뷰', pattern: /vreview/i, sources: ['script'] },
+  { type: 'reviewWidget', name: '알파리뷰', pattern: /alpha-?review/i, sources: ['script'] },
+  { type: 'reviewWidget', name: '스냅리뷰', pattern: /snapreview/i, sources: ['script'] }
+];
+
+const FOOTER_SELECTOR = 'footer, #footer, .footer, [class*="footer" i], [id*="footer" i]';
+const MAX_EVIDENCE = 80;
+
+/**
+ * 렌더링된 HTML에서 국내 쇼핑몰 신뢰 요소 찾기 - 결제사, 사업자 정보, 에스크로, 교환/반품 링크, 리뷰 위젯
+ * 본문 텍스트, 푸터, 이미지 alt, 스크립트/iframe 주소, 링크를 나눠서 검색
+ */
+export function detectTrustSignals(html: string): TrustSignal[] {
+  const $ = cheerio.load(html);
+  const normalize = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+  const segments: Record<SignalSource, string[]> = {
+    script: [
+      ...$('script[src], iframe[src]').map((_, el) => $(el).attr('src') || '').get(),
+      ...$('script:not([src])').map((_, el) => $(el).html() || '').get()
+    ],
+    alt: $('img[alt], img[title]').map((_, el) => normalize(`${$(el).attr('alt') || ''} ${$(el).attr('title') || ''}`)).get(),
+    link: $('a[href]').map((_, el) => normalize(`${$(el).text()} ${($(el).attr('href') || '').split('?')[0]}`)).get(),
+    footer: [],
+    text: []
+  };
+  $('script, style, noscript, template').remove();
+  // 중첩된 푸터 요소는 가장 바깥 것만
+  segments.footer = $(FOOTER_SELECTOR).filter((_, el) => $(el).parents(FOOTER_SELECTOR).length === 0)
+    .map((_, el) => normalize($(el).text())).get();
+  segments.text = [normalize($('body').text())];
+
+  const signals: TrustSignal[] = [];
+  for (const definition of SIGNAL_DEFINITIONS) {
+    for (const source of definition.sources) {
+      const evidence = findEvidence(segments[source], definition.pattern);
+      if (evidence) {
+        signals.push({ type: definition.type, name: definition.name, source, evidence });
+        break;
+      }
+    }
+  }
+  return signals;
+}
+
+/**
+ * 처음 일치한 조각 - 길면 일치 위치 주변만 잘라서 반환
+ */
+function findEvidence(segments: string[], pattern: RegExp): string | undefined {
+  for (const segment of segments) {
+    const match = segment.match(pattern);
+    if (!match || match.index === undefined) continue;
+    if (segment.length <= MAX_EVIDENCE) return segment.trim();
+    const start = Math.max(0, match.index - 20);
+    return segment.slice(start, start + MAX_EVIDENCE).trim();
+  }
+  return undefined;
+}
+
+/**
+ * trust 규칙 입력 (trust.*)
+ */
+export function summarizeTrustSignals(signals: TrustSignal[]): {
+  paymentProviders: string[];
+  businessInfo: number;
+  escrow: boolean;
+  returnPolicy: boolean;
+  reviewWidget: boolean;
+} {
+  const has = (type: TrustSignalType) => signals.some(signal => signal.type === type);
+  return {
+    paymentProviders: signals.filter(signal => signal.type === 'payment').map(signal => signal.name),
+    // 사업자등록번호와 통신판매업 신고번호 중 표시한 항목 수
+    businessInfo: Number(has('businessRegistration')) + Number(has('mailOrderRegistration')),
+    escrow: has('escrow'),
+    returnPolicy: has('returnPolicy'),
+    reviewWidget: has('reviewWidget')
+  };
+}
@@ -1,12 +1,38 @@
-import OpenAI from 'openai';
 import { z } from 'zod';
-import { LLMGraderInput, LLMGraderOutput } from '../types/index.js';
+import { LabeledScreenshot, LLMGraderInput, LLMGraderOutput, Vertical } from '../types/index.js';
+import { aggregateGradings } from './llm-consensus.js';
+import { createLLMProvider, imageLabel, LLMProvider, LLMProviderName } from './llm-providers.js';
+import { condenseHtml, DEFAULT_HTML_TOKEN_BUDGET } from './html-condenser.js';
+import { getPromptTemplate, PromptTemplate, PromptVariables, renderPrompt, RenderedPrompt } from './prompt-templates.js';
+
+// 기본 한국어 키워드 (업종 프로파일의 keywords로 그룹별 교체 가능)
+const DEFAULT_KOREAN_KEYWORDS: Record<string, string[]> = {
+  cta: ['구매', '바로구매', '장바구니', '이벤트', '쿠폰', '할인', '%', '원'],
+  category: ['베스트', '신상품', '추천', '인기', 'BEST', 'NEW'],
+  usp: ['무료배송', '당일배송', '정품보증', '첫구매', '회원가입', '적립', '혜택'],
+  trust: ['inicis', 'tosspayments', 'naverpay', 'kakaopay', 'https', '개인정보', '교환', '반품', 'AS', '고객센터'],
+  navigation: ['검색', '카테고리', '메뉴', '로그인', '마이페이지']
+};
+
+// htmlExcerpt 변수(v1 템플릿)에 포함할 HTML 길이
+const HTML_EXCERPT_LENGTH = 20000;
+
+// 한 번에 첨부할 최대 이미지 수 (퍼스트뷰/중간/하단 + 상품 상세/장바구니 + 액션 1장)
+export const MAX_LLM_IMAGES = 6;
+
+const VERTICAL_NAMES: Record<Vertical, string> = {
+  beauty: '뷰티/화장품',
+  fashion: '패션/의류',
+  food: '식품',
+  electronics: '전자제품/가전'
+};
 
 // Zod 스키마 정의 - LLM 출력 검증용
 
 const CheckResultSchema = z.object({
   id: z.string(), // Required for CheckResult interface
   score: z.number().min(0).max(10),
+  confidence: z.number().min(0).max(1).optional(), // LLM 자기 평가 확신도
   evidence: z.record(z.any()).optional(),
   metrics: z.record(z.any()).optional(),
   insights: z.array(z.string())
@@ -45,132 +71,64 @@ const LLMOutputSchema = z.object({
 });
 
 export class VisionLLMGrader {
-  private client: OpenAI | null = null;
-  private model: string;
+  private provider: LLMProvider | null;
   private maxRetries: number;
+  private promptTemplate?: string;
+  private htmlTokenBudget: number;
 
   constructor(
-    apiKey?: string,
-    model: string = 'gpt-5', // gpt-5 사용
-    maxRetries: number = 2
+    provider: LLMProvider | null = null,
+    maxRetries: number = 2,
+    promptTemplate?: string // name 또는 name@version, 없으면 PROMPT_TEMPLATE 환경 변수 또는 grader
   ) {
-    if (apiKey) {
-      this.client = new OpenAI({ apiKey });
-    }
-    this.model = model;
+    this.provider = provider;
     this.maxRetries = maxRetries;
+    this.promptTemplate = promptTemplate;
+    this.htmlTokenBudget = parseInt(process.env.LLM_HTML_TOKEN_BUDGET || String(DEFAULT_HTML_TOKEN_BUDGET), 10);
+  }
+
+  /**
+   * 실제 LLM 호출 가능 여부 (false면 gradeMock만 사용 가능)
+   */
+  isConfigured(): boolean {
+    return this.provider !== null;
+  }
+
+  getProviderName(): LLMProviderName | undefined {
+    return this.provider?.name;
   }
 
   /**
    * 메인 그레이딩 메서드
    */
   async grade(input: LLMGraderInput): Promise<LLMGraderOutput> {
-    if (!this.client) {
+    if (!this.provider) {
       throw new Error('LLM client not initialized. Provide API key.');
     }
 
-    const systemPrompt = this.buildSystemPrompt();
-    const userPrompt = this.buildUserPrompt(input);
+    const { template, systemPrompt, userPrompt } = this.renderPrompt(input);
 
     let lastError: Error | null = null;
     
     for (let attempt = 0; attempt < this.maxRetries; attempt++) {
       try {
-        // 메시지 구성
-        const messages: any[] = [
-          { role: 'system', content: systemPrompt }
-        ];
-
-        if (this.model === 'gpt-5' && input.screenshots?.firstView) {
-          // GPT-5는 이미지를 content 배열로 전달
-          messages.push({
-            role: 'user',
-            content: [
-              { type: 'text', text: userPrompt },
-              {
-                type: 'image_url',
-                image_url: { 
-                  url: input.screenshots.firstView,
-                  detail: 'high' // 고해상도 분석
-                }
-              }
-            ]
-          });
-        } else {
-          // 기존 모델은 텍스트만 전달
-          messages.push({ role: 'user', content: userPrompt });
-        }
-
-        // 디버깅: 이미지 URL 확인
-        if (this.model === 'gpt-5' && input.screenshots?.firstView) {
-          console.log('GPT-5 Image URL:', input.screenshots.firstView.substring(0, 200));
-          console.log('URL for analysis:', input.url);
-        }
-
         const startTime = Date.now();
-        const completionParams: any = {
-          model: this.model,
-          messages,
-          response_format: { type: 'json_object' },
-          temperature: this.model === 'gpt-5' ? 1 : 0.3, // GPT-5는 1, 다른 모델은 0.3
-        };
-        
-        // GPT-5는 max_completion_tokens 사용, 다른 모델은 max_tokens 사용
-        if (this.model === 'gpt-5') {
-          completionParams.max_completion_tokens = 16000; // 더 증가 (reasoning + output)
-          console.log('Using max_completion_tokens for GPT-5:', 16000);
-        } else {
-          completionParams.max_tokens = 4000;
-        }
-        
-        const response = await this.client.chat.completions.create(completionParams);
-
+        const completion = await this.provider.complete({
+          systemPrompt,
+          userPrompt,
+          images: this.selectImages(input)
+        });
         const processingTime = Date.now() - startTime;
-        const actualModel = response.model; // Actual model used (after routing)
-        const usage = response.usage;
 
         console.log(`Model Response Info:
-          - Requested Model: ${this.model}
-          - Actual Model Used: ${actualModel}
+          - Provider: ${this.provider.name}
+          - Requested Model: ${this.provider.model}
+          - Actual Model Used: ${completion.model}
           - Processing Time: ${processingTime}ms
-          - Tokens Used: ${usage?.total_tokens || 0}
+          - Tokens Used: ${completion.totalTokens}
         `);
 
-        const content = response.choices[0]?.message?.content;
-        
-        // 디버깅: 응답 구조 확인
-        console.log('Response choices count:', response.choices?.length);
-        console.log('Response finish_reason:', response.choices[0]?.finish_reason);
-        console.log('Response content length:', content?.length || 0);
-        
-        if (!content) {
-          console.error('Empty response details:', {
-            choices: response.choices?.length,
-            finish_reason: response.choices[0]?.finish_reason,
-            message: response.choices[0]?.message,
-            usage: response.usage
-          });
-          throw new Error('Empty response from LLM');
-        }
-
-        console.log('OpenAI response (first 500 chars):', content.substring(0, 500));
-        
-        const parsed = JSON.parse(content);
-        
-        // 디버깅: firstView 응답 확인
-        if (parsed.scores?.firstView?.evidence?.promoTexts) {
-          console.log('Detected promo texts:', JSON.stringify(parsed.scores.firstView.evidence.promoTexts));
-        }
-        
-        // Add id field if missing (GPT-5 fallback)
-        Object.entries(parsed.scores).forEach(([key, value]: [string, any]) => {
-          if (!value.id) {
-            value.id = key;
-          }
-        });
-        
-        // Zod 검증
-        const validated = LLMOutputSchema.parse(parsed);
+        const validated = this.parseOutput(completion.content);
         
         console.log('Validated scores - speed:', validated.scores.speed.score, 'firstView:', validated.scores.firstView.score);
         
@@ -178,12 +136,14 @@ export class VisionLLMGrader {
         const result: LLMGraderOutput = {
           ...validated,
           metadata: {
-            modelRequested: this.model,
-            modelUsed: actualModel,
+            provider: this.provider.name,
+            promptTemplate: template,
+            modelRequested: this.provider.model,
+            modelUsed: completion.model,
             processingTimeMs: processingTime,
-            tokensUsed: usage?.total_tokens || 0,
-            promptTokens: usage?.prompt_tokens || 0,
-            completionTokens: usage?.completion_tokens || 0
+            tokensUsed: completion.totalTokens,
+            promptTokens: completion.promptTokens,
+            completionTokens: completion.completionTokens
           }
         };
         
@@ -202,258 +162,110 @@ export class VisionLLMGrader {
   }
 
   /**
-   * 시스템 프롬프트 구성
+   * 프로바이더 응답 파싱 및 검증 - 모든 프로바이더가 같은 LLMOutputSchema를 통과해야 함
+   * JSON 모드가 없는 모델은 코드 블록이나 설명을 덧붙이므로 가장 바깥 객체만 추출
    */
-  private buildSystemPrompt(): string {
-    return `당신은 15년 이상 경력의 한국 이커머스 최적화 전문가입니다.
-
-역할:
-- 시니어 전문가로서 전체적인 총평 제공
-- 모바일 스크린샷과 HTML을 분석하여 10개 항목을 평가
-- 각 항목 10점 만점으로 채점
-- 모든 판단은 증거 기반 (bbox 좌표 또는 HTML 셀렉터/텍스트 인용)
-- 증거 없는 주장은 0점 처리
-
-평가 원칙:
-1. 객관적이고 일관된 기준 적용
-2. 시각적 요소는 bbox [x, y, width, height] 형식으로 위치 표시
-3. HTML 요소는 셀렉터와 텍스트 인용
-4. 한국어 키워드 우선 인식
-5. 모바일 사용성 중심 평가
-6. 비즈니스 관점에서 실질적 개선점 제시
-
-출력:
-- 정확한 JSON 형식만 반환
-- 추가 설명이나 주석 없음
-- 모든 필드 필수 포함`;
+  private parseOutput(content: string): z.infer<typeof LLMOutputSchema> {
+    const jsonStart = content.indexOf('{');
+    const jsonEnd = content.lastIndexOf('}');
+    if (jsonStart === -1 || jsonEnd < jsonStart) {
+      throw new Error(`LLM response is not JSON: ${content.substring(0, 200)}`);
+    }
+
+    const parsed = JSON.parse(content.substring(jsonStart, jsonEnd + 1));
+
+    // Add id field if missing (GPT-5 fallback)
+    Object.entries(parsed.scores || {}).forEach(([key, value]: [string, any]) => {
+      if (value && !value.id) {
+        value.id = key;
+      }
+    });
+
+    return LLMOutputSchema.parse(parsed);
   }
 
   /**
-   * 유저 프롬프트 구성
+   * 다중 샘플 그레이딩 - samples회 병렬 호출 후 카테고리별 중앙값으로 합의
+   * 일부 샘플이 실패해도 성공한 샘플로 합의하고, 모두 실패하면 오류를 던짐
    */
-  private buildUserPrompt(input: LLMGraderInput): string {
-    const koreanKeywords = {
-      cta: ['구매', '바로구매', '장바구니', '이벤트', '쿠폰', '할인', '%', '원'],
-      category: ['베스트', '신상품', '추천', '인기', 'BEST', 'NEW'],
-      usp: ['무료배송', '당일배송', '정품보증', '첫구매', '회원가입', '적립', '혜택'],
-      trust: ['inicis', 'tosspayments', 'naverpay', 'kakaopay', 'https', '개인정보', '교환', '반품', 'AS', '고객센터'],
-      navigation: ['검색', '카테고리', '메뉴', '로그인', '마이페이지']
-    };
+  async gradeWithConsensus(input: LLMGraderInput, samples: number): Promise<LLMGraderOutput> {
+    if (samples <= 1) {
+      return this.grade(input);
+    }
 
-    return `평가 대상:
-- URL: ${input.url}
-- 플랫폼: ${input.platform || 'unknown'}
-- 스크린샷: ${input.screenshots.actions?.length || 0}개 액션 후 캡처 포함
-
-⚠️ 중요: 반드시 ${input.url} 사이트의 실제 콘텐츠만 분석하세요.
-- 제공된 스크린샷과 HTML은 모두 ${input.url}의 것입니다
-- 다른 사이트의 프로모션이나 콘텐츠를 언급하지 마세요
-- 실제로 보이는 것만 근거로 평가하세요
-
-📍 스크린샷 좌표 시스템:
-- 모바일 뷰포트: 375x812 픽셀
-- bbox 형식: [x좌표, y좌표, 너비, 높이]
-- 모든 시각적 요소는 반드시 bbox 좌표를 포함해야 함
-- 좌표는 제공된 스크린샷의 실제 픽셀 위치를 기반으로 함
-
-한국어 키워드:
-${JSON.stringify(koreanKeywords, null, 2)}
-
-입력 데이터:
-- HTML 길이: ${input.html.length} 글자
-- 퍼스트뷰 스크린샷: 제공됨 (${input.url}의 모바일 화면)
-- 액션 스크린샷: ${input.screenshots.actions?.join(', ') || '없음'}
-
-평가 항목별 채점 기준:
-
-1. speed (성능): Lighthouse 메트릭 기반
-   - LCP ≤2.5s: 4점, ≤4.0s: 3점, >4.0s: 1점
-   - CLS ≤0.1: 2점
-   - TBT ≤300ms: 2점
-   - 네트워크 에러 없음: 2점
-
-2. firstView (퍼스트뷰):
-   - CTA 버튼 스크롤 없이 노출 + bbox: 5점
-   - 히어로 프로모션 문구 + bbox: 3점
-   - 폰트 크기 ≥16px: 2점
-
-3. bi (브랜드 아이덴티티):
-   - 로고 상단 15% 내 + bbox: 3점
-   - Primary 색상 재사용률 ≥60%: 4점
-   - 타이포그래피 계층 명확: 3점
-
-4. navigation (내비게이션):
-   - 메뉴 3-8개: 4점
-   - 검색창 존재 + selector: 3점
-   - 베스트/신상품 섹션: 3점
-
-5. uspPromo (USP/프로모션):
-   - Above-the-fold 위치 + bbox: 3점
-   - 텍스트 대비 ≥4.5: 3점
-   - 폰트 크기 ≥18px: 1점
-   - CTA 근접 ≤300px: 2점
-   - 구체적 혜택 (숫자/기한): 1점
-
-6. visuals (비주얼):
-   - alt 텍스트 비율 ≥80%: 2점
-   - 팝업 ≤1개: 3점
-   - 콘텐츠 플로우 순서 적절: 3점
-   - 이미지 품질: 2점
-
-7. trust (신뢰):
-   - 리뷰/평점 표시: 3점
-   - 정책 표시 (교환/반품/AS): 3점
-   - 결제 수단 로고: 4점
-
-8. mobile (모바일):
-   - viewport 메타 태그: 2점
-   - 가독성: 3점
-   - 탭 타겟 크기 적절: 3점
-   - 가로 스크롤 없음: 2점
-
-9. purchaseFlow (구매 플로우):
-   - 홈→PDP 도달: 3점
-   - PDP→장바구니 도달: 3점
-   - 장바구니→결제 진입: 3점
-   - 3단계 이내: 1점
-   - 필수 필드: ok (boolean), steps (array)
-   - ⚠️ 중요: steps의 name은 반드시 "home", "pdp", "cart", "checkout" 중 하나여야 함
-
-10. seoAnalytics (SEO/분석):
-    - 메타 태그 (title/description/og/h1/canonical): 각 1점, alt: 2점
-    - 분석 코드 존재: 3점
-
-HTML (처음 20000자):
-\`\`\`html
-${input.html.substring(0, 20000)}
-\`\`\`
-
-지시사항:
-1. 각 항목을 신중히 평가 (해당 URL의 실제 콘텐츠 기반)
-2. 모든 점수에 대한 evidence 제공 (스크린샷에서 보이는 요소는 반드시 bbox 좌표 포함)
-   - 시각적 요소(버튼, 로고, 프로모션 등): bbox [x, y, width, height] 필수
-   - HTML 요소: selector와 text 포함
-   - evidence는 실제로 스크린샷/HTML에서 확인한 것만 포함
-   - 추측이나 일반적인 내용 금지
-3. insights는 구체적 개선점 1-3개
-4. 정확한 JSON 형식으로만 응답
-5. 프로모션 문구는 실제로 해당 사이트에 있는 것만 언급
-6. bbox 좌표는 실제 스크린샷에서 요소의 위치를 정확히 반영해야 함
-
-응답 형식 (⚠️ 매우 중요: 각 score 객체에 반드시 "id" 필드를 포함해야 함):
-{
-  "url": "평가한 URL",
-  "expertSummary": {
-    "grade": "S/A/B/C/D/F 중 하나 (S=90+, A=80+, B=70+, C=60+, D=50+, F=50미만)",
-    "headline": "한 줄 총평 (예: '기본기는 갖춰졌으나 전환율 개선 여지가 많은 사이트')",
-    "strengths": [
-      "강점 1 (가장 잘된 점)",
-      "강점 2",
-      "강점 3"
-    ],
-    "weaknesses": [
-      "약점 1 (가장 심각한 문제)",
-      "약점 2",
-      "약점 3"
-    ],
-    "priorities": [
-      "최우선 개선사항 (ROI가 가장 높은 것)",
-      "차순위 개선사항",
-      "장기 개선사항"
-    ]
-  },
-  "scores": {
-    "speed": {
-      "id": "speed",
-      "score": 0-10,
-      "metrics": {"LCP": 0, "CLS": 0, "TBT": 0},
-      "evidence": {"lighthousePath": "경로"},
-      "insights": ["개선점"]
-    },
-    "firstView": {
-      "id": "firstView",
-      "score": 0-10,
-      "evidence": {
-        "cta": {"selector": "button.buy", "bbox": [x, y, w, h], "text": "구매하기"},
-        "promoTexts": [{"text": "50% 할인", "bbox": [x, y, w, h]}]
-      },
-      "insights": ["개선점"]
-    },
-    "bi": {
-      "id": "bi",
-      "score": 0-10,
-      "evidence": {},
-      "insights": ["개선점"]
-    },
-    "navigation": {
-      "id": "navigation",
-      "score": 0-10,
-      "evidence": {},
-      "insights": ["개선점"]
-    },
-    "uspPromo": {
-      "id": "uspPromo",
-      "score": 0-10,
-      "evidence": {},
-      "insights": ["개선점"]
-    },
-    "visuals": {
-      "id": "visuals",
-      "score": 0-10,
-      "evidence": {},
-      "insights": ["개선점"]
-    },
-    "trust": {
-      "id": "trust",
-      "score": 0-10,
-      "evidence": {},
-      "insights": ["개선점"]
-    },
-    "mobile": {
-      "id": "mobile",
-      "score": 0-10,
-      "evidence": {},
-      "insights": ["개선점"]
-    },
-    "purchaseFlow": {
-      "id": "purchaseFlow",
-      "score": 0-10,
-      "ok": true/false,
-      "steps": [
-        {"name": "home", "url": "URL", "screenshot": "base64 or path"},
-        {"name": "pdp", "url": "URL", "screenshot": "base64 or path"},
-        {"name": "cart", "url": "URL", "screenshot": "base64 or path"}
-      ],
-      "evidence": {},
-      "insights": ["개선점"]
-    },
-    "seoAnalytics": {
-      "id": "seoAnalytics",
-      "score": 0-10,
-      "evidence": {},
-      "insights": ["개선점"]
+    const results = await Promise.allSettled(
+      Array.from({ length: samples }, () => this.grade(input))
+    );
+    const outputs = results
+      .filter((result): result is PromiseFulfilledResult<LLMGraderOutput> => result.status === 'fulfilled')
+      .map(result => result.value);
+
+    if (outputs.length === 0) {
+      throw (results[0] as PromiseRejectedResult).reason;
     }
+    if (outputs.length < samples) {
+      console.warn(`LLM consensus using ${outputs.length}/${samples} samples`);
+    }
+
+    const consensus = aggregateGradings(outputs);
+    if (consensus.consensus?.disagreements.length) {
+      console.warn('LLM samples disagree on:', consensus.consensus.disagreements.join(', '));
+    }
+    return consensus;
   }
-}`;
+
+  /**
+   * 프롬프트 렌더링 - 템플릿 파일(config/prompts)에 그레이딩 입력 변수를 채움
+   */
+  renderPrompt(input: LLMGraderInput): RenderedPrompt {
+    return renderPrompt(this.getPromptTemplate(), this.buildPromptVariables(input));
   }
 
   /**
-   * Anthropic Claude 사용 시 대체 구현
+   * 사용할 템플릿의 name@version - 실행 기록에 저장
    */
-  async gradeWithClaude(_input: LLMGraderInput, _apiKey: string): Promise<LLMGraderOutput> {
-    // Anthropic SDK를 사용한 구현
-    // 비슷한 로직이지만 Claude의 API 형식에 맞춤
-    throw new Error('Claude implementation not yet available');
+  getPromptTemplateKey(): string {
+    return this.getPromptTemplate().key;
+  }
+
+  private getPromptTemplate(): PromptTemplate {
+    return getPromptTemplate(this.promptTemplate);
   }
 
   /**
-   * 로컬 모델 사용 시 대체 구현 (Ollama 등)
+   * 첨부 이미지 - 라벨 붙은 이미지가 없으면 firstView 한 장
    */
-  async gradeWithLocalModel(_input: LLMGraderInput): Promise<LLMGraderOutput> {
-    // 로컬 모델 API 호출
-    throw new Error('Local model implementation not yet available');
+  private selectImages(input: LLMGraderInput): LabeledScreenshot[] {
+    if (input.screenshots.images?.length) {
+      return input.screenshots.images.slice(0, MAX_LLM_IMAGES);
+    }
+    return input.screenshots.firstView
+      ? [{ id: 'firstView', label: '퍼스트뷰', image: input.screenshots.firstView }]
+      : [];
   }
 
+  /**
+   * 템플릿 변수 계산
+   */
+  private buildPromptVariables(input: LLMGraderInput): PromptVariables {
+    // 업종 프로파일이 지정한 그룹은 해당 키워드로 교체
+    const koreanKeywords = { ...DEFAULT_KOREAN_KEYWORDS, ...input.keywords };
+    const images = this.selectImages(input);
+
+    return {
+      url: input.url,
+      platform: input.platform || 'unknown',
+      verticalName: input.vertical ? VERTICAL_NAMES[input.vertical] : '',
+      keywords: JSON.stringify(koreanKeywords, null, 2),
+      htmlLength: String(input.html.length),
+      htmlExcerpt: input.html.substring(0, HTML_EXCERPT_LENGTH),
+      condensedHtml: condenseHtml(input.html, { maxTokens: this.htmlTokenBudget }).html,
+      actionCount: String(input.screenshots.actions?.length || 0),
+      actionScreenshots: input.screenshots.actions?.join(', ') || '없음',
+      images: images.map(image => `- ${imageLabel(image)}`).join('\n') || '- 없음',
+      imageCount: String(images.length)
+    };
+  }
 
   /**
    * 헬퍼: sleep
@@ -591,17 +403,14 @@ ${input.html.substring(0, 20000)}
 }
 
 /**
- * 팩토리 함수
+ * 팩토리 함수 - provider를 지정하지 않으면 LLM_PROVIDER (기본 openai)
  */
-export function createVisionLLMGrader(): VisionLLMGrader {
-  // const provider = process.env.LLM_PROVIDER || 'openai';
-  const apiKey = process.env.LLM_API_KEY;
-  const model = process.env.LLM_MODEL || 'gpt-5'; // gpt-5 사용
-
-  if (!apiKey && process.env.NODE_ENV !== 'test') {
-    console.warn('LLM_API_KEY not provided, using mock grader');
-    return new VisionLLMGrader();
+export function createVisionLLMGrader(provider?: LLMProviderName): VisionLLMGrader {
+  const llmProvider = createLLMProvider(provider);
+
+  if (!llmProvider && process.env.NODE_ENV !== 'test') {
+    console.warn(`LLM provider ${provider || process.env.LLM_PROVIDER || 'openai'} not configured, using mock grader`);
   }
 
-  return new VisionLLMGrader(apiKey, model);
-}
\ No newline at end of file
+  return new VisionLLMGrader(llmProvider);
+}
@@ -91,24 +91,94 @@ export interface SEOMetrics {
   h1Count?: number;
   canonicalUrl?: string;
   ogTags?: Record<string, string>;
-  structuredData?: any[];
-  robots?: string;
-  sitemap?: boolean;
+  structuredData?: StructuredDataItem[];
+  robots?: RobotsTxtInfo; // 가져오지 못했으면 없음 (404는 found: false)
+  sitemap?: SitemapInfo;
+}
+
+/**
+ * 페이지의 JSON-LD/microdata 항목과 필수 필드 검증 결과
+ */
+export interface StructuredDataItem {
+  type: string; // schema.org 타입 (예: Product)
+  format: 'json-ld' | 'microdata';
+  validated: boolean; // 필수 필드를 검사하는 타입인지 (Organization, Product, BreadcrumbList)
+  valid: boolean;
+  missing: string[]; // 빠진 필수 필드 경로 (예: offers.price)
+  error?: string; // JSON 파싱 실패 등
+}
+
+export interface RobotsTxtInfo {
+  found: boolean;
+  disallowsAll: boolean; // User-agent: * 에 Disallow: /
+  sitemaps: string[]; // Sitemap: 지시어
+}
+
+export interface SitemapInfo {
+  found: boolean;
+  url: string;
+  urlCount?: number; // <loc> 개수 (sitemap index면 하위 사이트맵 수)
 }
 
 /**
  * 접근성 메트릭
  */
+export type AccessibilityImpact = 'minor' | 'moderate' | 'serious' | 'critical';
+
 export interface AccessibilityMetrics {
-  score: number;
+  score: number; // axe-core 규칙 통과 비율 (0-100)
+  violationsByImpact: Record<AccessibilityImpact, number>; // 영향도별 위반 규칙 수
+  seriousViolations: number; // serious/critical 위반 규칙 수 (mobile 규칙 accessibility.seriousViolations)
   violations: Array<{
     id: string;
-    impact: 'minor' | 'moderate' | 'serious' | 'critical';
+    impact: AccessibilityImpact;
     description: string;
+    help?: string;
+    helpUrl?: string;
     nodes: number;
+    targets: string[]; // 위반 요소 셀렉터 (최대 5개)
+    bbox?: [number, number, number, number]; // 첫 위반 요소 위치 (페이지 기준 CSS px)
+    screenshot?: string; // 첫 위반 요소를 잘라낸 근거 이미지 (JPEG data URL)
   }>;
 }
 
+/**
+ * 캡처 중 네트워크 요청으로 분류한 분석/마케팅 태그
+ */
+export type TagCategory = 'analytics' | 'advertising' | 'tagManager';
+
+export interface DetectedTag {
+  vendor: string; // 태그 ID (예: ga4, metaPixel)
+  name: string; // 표시 이름 (예: Meta Pixel)
+  category: TagCategory;
+  accountIds: string[]; // 측정 ID/픽셀 ID (예: G-XXXX, GTM-XXXX)
+  scriptLoaded: boolean; // 라이브러리 스크립트 요청 여부
+  firedOnLoad: boolean; // 액션/스크롤 전 첫 로드 중 수집 요청 전송 (태그 매니저는 컨테이너 로드)
+  hits: number; // 캡처 전체의 수집 요청 수
+  events: string[]; // 수집 요청에서 읽은 이벤트 이름
+  duplicates: string[]; // 중복 로드/전송 설명 (예: "G-XXXX page_view 2회")
+  missingEcommerceEvents: string[]; // 전송되지 않았고 페이지 스크립트에서도 찾지 못한 이커머스 이벤트
+}
+
+export interface TagInventory {
+  tags: DetectedTag[];
+  requestCount: number; // 기록한 전체 요청 수
+  firingCount: number; // 첫 로드 중 전송한 분석/광고 태그 수 (태그 매니저 제외)
+  duplicateCount: number; // 중복 항목 수 (모든 태그 합계)
+}
+
+/**
+ * 렌더링된 HTML에서 찾은 신뢰 요소
+ */
+export type TrustSignalType = 'payment' | 'businessRegistration' | 'mailOrderRegistration' | 'escrow' | 'returnPolicy' | 'reviewWidget';
+
+export interface TrustSignal {
+  type: TrustSignalType;
+  name: string; // 결제사/위젯 이름 또는 항목 이름 (예: tosspayments, 크리마)
+  source: 'footer' | 'text' | 'alt' | 'script' | 'link'; // 처음 찾은 위치
+  evidence: string; // 찾은 텍스트나 URL (최대 80자)
+}
+
 /**
  * 스크린샷 정보
  */
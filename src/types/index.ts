@@ -1,5 +1,15 @@
+/**
+ * 업종 구분 - 같은 이름의 채점 프로파일(config/profiles)을 선택
+ */
+export type Vertical = 'beauty' | 'fashion' | 'food' | 'electronics';
+
 export interface AuditRequest {
   url: string;
+  profile?: string; // 채점 프로파일 (name 또는 name@version)
+  vertical?: Vertical; // 업종 - profile이 없을 때 해당 업종 프로파일 사용 (미지정 시 HTML로 자동 감지)
+  weights?: Record<string, number>; // 카테고리별 가중치 배수 (예: { mobile: 2, seoAnalytics: 0.5 })
+  samples?: number; // LLM 그레이딩 반복 횟수 (기본 LLM_SAMPLES 또는 1)
+  llmProvider?: 'openai' | 'anthropic' | 'local'; // 그레이딩 프로바이더 (기본 LLM_PROVIDER)
 }
 
 export interface AuditRun {
@@ -15,6 +25,24 @@ export interface AuditRun {
     actions?: string[];
   };
   platform?: string;
+  scoringProfile?: string; // 채점에 사용된 프로파일 (name@version)
+  promptTemplate?: string; // LLM 그레이딩에 사용된 프롬프트 템플릿 (name@version)
+  weightMultipliers?: Record<string, number>; // 요청에서 지정한 가중치 배수
+  appliedWeights?: Record<string, number>; // 카테고리별 총점 반영 비율 (%, 합계 100)
+  apiKeyId?: string; // 요청 API 키 식별자 (x-api-key 해시)
+  llmUsage?: LLMUsage; // LLM 토큰 사용량과 비용
+}
+
+/**
+ * 실행별 LLM 토큰 사용량 (다중 샘플이면 합계)
+ */
+export interface LLMUsage {
+  provider?: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number | null; // 가격표(config/llm-pricing.yaml)에 없는 모델이면 null
 }
 
 export interface Evidence {
@@ -26,10 +54,86 @@ export interface Evidence {
   type?: string;
 }
 
+/**
+ * 규칙 판정 기준 (config/rules.yaml의 matcher)
+ */
+export interface RuleThreshold {
+  thresholds?: number[];
+  min?: number;
+  max?: number;
+  equals?: boolean | number | string;
+  keywords?: string[];
+  anyOf?: string[];
+  patterns?: string[];
+}
+
+/**
+ * 규칙 하나의 채점 결과
+ */
+export interface RuleOutcome {
+  ruleId: string;
+  description: string;
+  source: 'rule' | 'ai';
+  pointsPossible: number;
+  pointsAwarded: number;
+  measuredValue?: unknown;
+  threshold?: RuleThreshold;
+  measured: boolean; // false면 기본 배점(unmeasuredRatio) 적용
+}
+
+/**
+ * 점수 신뢰도 구성 요소 (각 0-1)
+ */
+export interface ConfidenceFactors {
+  evidence: number; // AI 규칙 대비 위치/셀렉터/텍스트가 있는 근거 비율
+  llm?: number; // LLM 자기 평가 확신도
+  ruleCoverage: number; // 실제 측정값으로 채점된 배점 비율
+}
+
+/**
+ * 다중 샘플 LLM 그레이딩의 카테고리별 점수 분포
+ */
+export interface ScoreSpread {
+  samples: number[]; // 샘플별 LLM 점수
+  median: number;
+  variance: number;
+  disagreement: boolean; // 샘플 간 편차가 커서 점수가 불안정
+}
+
+/**
+ * 카테고리별 LLM 근거(bbox/selector/text) 검증 결과 - 렌더링된 DOM과 대조
+ */
+export interface EvidenceVerification {
+  checked: number; // 검증한 근거 수
+  verified: number; // bbox/텍스트가 실제 요소와 일치
+  snapped: number; // 요소는 있으나 bbox가 어긋나 실제 요소 위치로 보정
+  unverified: number; // 주장한 텍스트/요소를 찾지 못함
+  originalScore?: number; // 미검증 근거로 감점되기 전 LLM 점수
+}
+
+/**
+ * 렌더링된 DOM 요소 스냅샷 (좌표는 페이지 기준 CSS px)
+ */
+export interface DomElementSnapshot {
+  selector: string;
+  tag: string;
+  text: string; // innerText (없으면 alt/aria-label)
+  rect: { x: number; y: number; width: number; height: number };
+  color?: string; // computed color (텍스트 대비 측정용)
+  fontSize?: number; // computed font-size (px)
+  fontWeight?: number;
+}
+
 export interface CheckResult {
   id: string;
   score: number;
   source?: 'rule' | 'ai' | 'hybrid'; // 점수 출처
+  confidence?: number; // 점수 신뢰도 (0-1) - LLM 출력에서는 자기 평가 값
+  confidenceLevel?: 'high' | 'medium' | 'low';
+  confidenceFactors?: ConfidenceFactors;
+  scoreSpread?: ScoreSpread; // 다중 샘플 그레이딩 시 LLM 점수 분포
+  evidenceVerification?: EvidenceVerification; // 근거 검증 결과
+  ruleOutcomes?: RuleOutcome[]; // 규칙별 배점 내역
   metrics?: Record<string, any>;
   evidence?: Record<string, any>;
   insights: string[];
@@ -41,8 +145,17 @@ export interface PurchaseFlowStep {
   screenshot: string;
 }
 
+/**
+ * 재채점용 원본 입력 - 크롤링 없이 다른 프로파일로 다시 채점할 때 사용
+ */
+export interface ScoringInputs {
+  measuredData: Record<string, any>;
+  llmOutput: LLMGraderOutput;
+}
+
 export interface AuditResult extends AuditRun {
   checks: CheckResult[];
+  scoringInputs?: ScoringInputs; // 워커가 별도 저장 (API 응답에는 포함되지 않음)
   expertSummary?: ExpertSummary;
   purchaseFlow?: {
     ok: boolean;
@@ -103,19 +216,32 @@ export interface LighthouseMetrics {
   SI?: number;
   TTI?: number;
   requests?: number;
+  errors?: number; // 4xx/5xx 응답 요청 수
   redirects?: number;
 }
 
 export interface LLMGraderInput {
   url: string;
   platform?: 'cafe24' | 'imweb' | 'unknown';
+  vertical?: Vertical;
+  keywords?: Record<string, string[]>; // 프로파일별 한국어 키워드 (그룹 단위 교체)
   html: string;
   screenshots: {
     firstView: string;
     actions?: string[];
+    images?: LabeledScreenshot[]; // 있으면 firstView 대신 라벨과 함께 순서대로 첨부
   };
 }
 
+/**
+ * LLM에 첨부하는 라벨 붙은 스크린샷
+ */
+export interface LabeledScreenshot {
+  id: string; // firstView | midPage | footer | pdp | cart | action1...
+  label: string; // 프롬프트와 이미지 앞에 표시할 설명
+  image: string; // URL 또는 data URL
+}
+
 export interface ExpertSummary {
   grade: 'S' | 'A' | 'B' | 'C' | 'D' | 'F';
   headline: string;
@@ -139,7 +265,13 @@ export interface LLMGraderOutput {
     purchaseFlow: CheckResult & { ok: boolean; steps: PurchaseFlowStep[] };
     seoAnalytics: CheckResult;
   };
+  consensus?: {
+    samples: number; // 합의에 사용된 그레이딩 수
+    disagreements: string[]; // 샘플 간 편차가 큰 카테고리
+  };
   metadata?: {
+    provider?: string; // openai | anthropic | local
+    promptTemplate?: string; // name@version
     modelRequested: string;
     modelUsed: string;
     processingTimeMs: number;
@@ -1,6 +1,7 @@
 import pg from 'pg';
-import { AuditRun, AuditResult, CheckResult } from '../types/index.js';
+import { AuditRun, AuditResult, CheckResult, ScoringInputs } from '../types/index.js';
 import { FileDatabase } from './file-database.js';
+import { addToUsageBuckets, ANONYMOUS_API_KEY, matchesUsageFilter, toUsageEntry, UsageBucket, UsageEntry, UsageFilter } from '../lib/llm-usage.js';
 
 const { Pool } = pg;
 
@@ -9,6 +10,8 @@ class InMemoryDatabase {
   private runs: Map<string, AuditRun> = new Map();
   private checks: Map<string, CheckResult[]> = new Map();
   private flowSteps: Map<string, any[]> = new Map();
+  private scoringInputs: Map<string, ScoringInputs> = new Map();
+  private usageBuckets: Map<string, UsageBucket> = new Map(); // LLM 사용량 누적 집계
 
   async ping(): Promise<void> {
     // 메모리 DB는 항상 OK
@@ -27,7 +30,12 @@ class InMemoryDatabase {
   async updateRun(runId: string, updates: Partial<AuditRun>): Promise<void> {
     const run = this.runs.get(runId);
     if (run) {
-      this.runs.set(runId, { ...run, ...updates });
+      const updated = { ...run, ...updates };
+      if (updates.llmUsage !== undefined) {
+        if (run.llmUsage) addToUsageBuckets(this.usageBuckets, toUsageEntry(run, run.llmUsage), -1);
+        addToUsageBuckets(this.usageBuckets, toUsageEntry(updated, updates.llmUsage));
+      }
+      this.runs.set(runId, updated);
     }
   }
 
@@ -67,6 +75,14 @@ class InMemoryDatabase {
     this.flowSteps.set(runId, steps);
   }
 
+  async saveScoringInputs(runId: string, inputs: ScoringInputs): Promise<void> {
+    this.scoringInputs.set(runId, inputs);
+  }
+
+  async getScoringInputs(runId: string): Promise<ScoringInputs | null> {
+    return this.scoringInputs.get(runId) || null;
+  }
+
   async listRuns(options: {
     limit?: number;
     offset?: number;
@@ -97,10 +113,28 @@ class InMemoryDatabase {
     return runs.length;
   }
 
+  async aggregateLLMUsage(filter: UsageFilter): Promise<UsageBucket[]> {
+    return Array.from(this.usageBuckets.values()).filter(bucket => matchesUsageFilter(bucket, filter));
+  }
+
+  async listLLMUsage(filter: UsageFilter & { limit: number }): Promise<UsageEntry[]> {
+    return Array.from(this.runs.values())
+      .filter(run => run.llmUsage)
+      .map(run => toUsageEntry(run, run.llmUsage!))
+      .filter(entry => matchesUsageFilter(entry, filter))
+      .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+      .slice(0, filter.limit);
+  }
+
   async deleteRun(runId: string): Promise<void> {
+    const run = this.runs.get(runId);
+    if (run?.llmUsage) {
+      addToUsageBuckets(this.usageBuckets, toUsageEntry(run, run.llmUsage), -1);
+    }
     this.runs.delete(runId);
     this.checks.delete(runId);
     this.flowSteps.delete(runId);
+    this.scoringInputs.delete(runId);
   }
 
   async close(): Promise<void> {
@@ -155,6 +189,13 @@ export class Database {
           run_id UUID REFERENCES audit_runs(run_id) ON DELETE CASCADE,
           category VARCHAR(50) NOT NULL,
           score INTEGER NOT NULL,
+          source VARCHAR(10),
+          confidence REAL,
+          confidence_level VARCHAR(10),
+          confidence_factors JSONB,
+          score_spread JSONB,
+          evidence_verification JSONB,
+          rule_outcomes JSONB,
           metrics JSONB,
           evidence JSONB,
           insights TEXT[],
@@ -162,6 +203,64 @@ export class Database {
         )
       `);
 
+      // 기존 테이블 마이그레이션 - 규칙별 배점 내역 컬럼
+      await client.query(`
+        ALTER TABLE audit_checks
+        ADD COLUMN IF NOT EXISTS source VARCHAR(10),
+        ADD COLUMN IF NOT EXISTS rule_outcomes JSONB
+      `);
+
+      // 기존 테이블 마이그레이션 - 점수 신뢰도 컬럼
+      await client.query(`
+        ALTER TABLE audit_checks
+        ADD COLUMN IF NOT EXISTS confidence REAL,
+        ADD COLUMN IF NOT EXISTS confidence_level VARCHAR(10),
+        ADD COLUMN IF NOT EXISTS confidence_factors JSONB
+      `);
+
+      // 기존 테이블 마이그레이션 - 다중 샘플 점수 분포 컬럼
+      await client.query(`
+        ALTER TABLE audit_checks
+        ADD COLUMN IF NOT EXISTS score_spread JSONB
+      `);
+
+      // 기존 테이블 마이그레이션 - 근거 검증 결과 컬럼
+      await client.query(`
+        ALTER TABLE audit_checks
+        ADD COLUMN IF NOT EXISTS evidence_verification JSONB
+      `);
+
+      // 기존 테이블 마이그레이션 - 채점 프로파일/가중치 컬럼
+      await client.query(`
+        ALTER TABLE audit_runs
+        ADD COLUMN IF NOT EXISTS scoring_profile VARCHAR(100),
+        ADD COLUMN IF NOT EXISTS weight_multipliers JSONB,
+        ADD COLUMN IF NOT EXISTS applied_weights JSONB
+      `);
+
+      // 기존 테이블 마이그레이션 - LLM 사용량/비용 컬럼
+      await client.query(`
+        ALTER TABLE audit_runs
+        ADD COLUMN IF NOT EXISTS api_key_id VARCHAR(32),
+        ADD COLUMN IF NOT EXISTS llm_usage JSONB
+      `);
+
+      // 기존 테이블 마이그레이션 - 프롬프트 템플릿 버전 컬럼
+      await client.query(`
+        ALTER TABLE audit_runs
+        ADD COLUMN IF NOT EXISTS prompt_template VARCHAR(100)
+      `);
+
+      // 재채점용 원본 입력 (측정값 + LLM 출력)
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS audit_inputs (
+          run_id UUID PRIMARY KEY REFERENCES audit_runs(run_id) ON DELETE CASCADE,
+          measured_data JSONB NOT NULL,
+          llm_output JSONB NOT NULL,
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+
       await client.query(`
         CREATE TABLE IF NOT EXISTS flow_steps (
           id SERIAL PRIMARY KEY,
@@ -195,6 +294,12 @@ export class Database {
         ON flow_steps(run_id)
       `);
 
+      // 사용량 집계 (llm_usage가 있는 실행만)
+      await client.query(`
+        CREATE INDEX IF NOT EXISTS idx_audit_runs_llm_usage_started_at
+        ON audit_runs(started_at) WHERE llm_usage IS NOT NULL
+      `);
+
     } finally {
       client.release();
     }
@@ -204,9 +309,17 @@ export class Database {
     const client = await this.pool.connect();
     try {
       await client.query(
-        `INSERT INTO audit_runs (run_id, url, status, started_at) 
-         VALUES ($1, $2, $3, $4)`,
-        [run.runId, run.url, run.status, run.startedAt]
+        `INSERT INTO audit_runs (run_id, url, status, started_at, scoring_profile, weight_multipliers, api_key_id) 
+         VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+        [
+          run.runId,
+          run.url,
+          run.status,
+          run.startedAt,
+          run.scoringProfile || null,
+          run.weightMultipliers ? JSON.stringify(run.weightMultipliers) : null,
+          run.apiKeyId || null
+        ]
       );
     } finally {
       client.release();
@@ -236,6 +349,26 @@ export class Database {
         fields.push(`error = $${paramCount++}`);
         values.push(updates.error);
       }
+      if (updates.scoringProfile !== undefined) {
+        fields.push(`scoring_profile = $${paramCount++}`);
+        values.push(updates.scoringProfile);
+      }
+      if (updates.promptTemplate !== undefined) {
+        fields.push(`prompt_template = $${paramCount++}`);
+        values.push(updates.promptTemplate);
+      }
+      if (updates.weightMultipliers !== undefined) {
+        fields.push(`weight_multipliers = $${paramCount++}`);
+        values.push(JSON.stringify(updates.weightMultipliers));
+      }
+      if (updates.appliedWeights !== undefined) {
+        fields.push(`applied_weights = $${paramCount++}`);
+        values.push(JSON.stringify(updates.appliedWeights));
+      }
+      if (updates.llmUsage !== undefined) {
+        fields.push(`llm_usage = $${paramCount++}`);
+        values.push(JSON.stringify(updates.llmUsage));
+      }
       if ((updates as any).platform !== undefined) {
         fields.push(`platform = $${paramCount++}`);
         values.push((updates as any).platform);
@@ -273,7 +406,13 @@ export class Database {
         startedAt: row.started_at,
         elapsedMs: row.elapsed_ms,
         totalScore: row.total_score,
-        error: row.error
+        error: row.error,
+        scoringProfile: row.scoring_profile || undefined,
+        promptTemplate: row.prompt_template || undefined,
+        weightMultipliers: row.weight_multipliers || undefined,
+        appliedWeights: row.applied_weights || undefined,
+        apiKeyId: row.api_key_id || undefined,
+        llmUsage: row.llm_usage || undefined
       };
     } finally {
       client.release();
@@ -310,6 +449,13 @@ export class Database {
       const checks: CheckResult[] = checksResult.rows.map(row => ({
         id: row.category,
         score: row.score,
+        source: row.source || undefined,
+        confidence: row.confidence ?? undefined,
+        confidenceLevel: row.confidence_level || undefined,
+        confidenceFactors: row.confidence_factors || undefined,
+        scoreSpread: row.score_spread || undefined,
+        evidenceVerification: row.evidence_verification || undefined,
+        ruleOutcomes: row.rule_outcomes || undefined,
         metrics: row.metrics,
         evidence: row.evidence,
         insights: row.insights || []
@@ -328,6 +474,11 @@ export class Database {
         startedAt: run.started_at,
         elapsedMs: run.elapsed_ms,
         totalScore: run.total_score,
+        scoringProfile: run.scoring_profile || undefined,
+        promptTemplate: run.prompt_template || undefined,
+        weightMultipliers: run.weight_multipliers || undefined,
+        appliedWeights: run.applied_weights || undefined,
+        llmUsage: run.llm_usage || undefined,
         checks,
         purchaseFlow: steps.length > 0 ? {
           ok: true,
@@ -347,12 +498,19 @@ export class Database {
     const client = await this.pool.connect();
     try {
       await client.query(
-        `INSERT INTO audit_checks (run_id, category, score, metrics, evidence, insights)
-         VALUES ($1, $2, $3, $4, $5, $6)`,
+        `INSERT INTO audit_checks (run_id, category, score, source, confidence, confidence_level, confidence_factors, score_spread, evidence_verification, rule_outcomes, metrics, evidence, insights)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)`,
         [
           runId,
           check.id,
           check.score,
+          check.source || null,
+          check.confidence ?? null,
+          check.confidenceLevel || null,
+          check.confidenceFactors ? JSON.stringify(check.confidenceFactors) : null,
+          check.scoreSpread ? JSON.stringify(check.scoreSpread) : null,
+          check.evidenceVerification ? JSON.stringify(check.evidenceVerification) : null,
+          check.ruleOutcomes ? JSON.stringify(check.ruleOutcomes) : null,
           JSON.stringify(check.metrics || {}),
           JSON.stringify(check.evidence || {}),
           check.insights || []
@@ -376,6 +534,39 @@ export class Database {
     }
   }
 
+  async saveScoringInputs(runId: string, inputs: ScoringInputs): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query(
+        `INSERT INTO audit_inputs (run_id, measured_data, llm_output)
+         VALUES ($1, $2, $3)
+         ON CONFLICT (run_id) DO UPDATE SET measured_data = $2, llm_output = $3`,
+        [runId, JSON.stringify(inputs.measuredData), JSON.stringify(inputs.llmOutput)]
+      );
+    } finally {
+      client.release();
+    }
+  }
+
+  async getScoringInputs(runId: string): Promise<ScoringInputs | null> {
+    const client = await this.pool.connect();
+    try {
+      const result = await client.query(
+        'SELECT measured_data, llm_output FROM audit_inputs WHERE run_id = $1',
+        [runId]
+      );
+      if (result.rows.length === 0) {
+        return null;
+      }
+      return {
+        measuredData: result.rows[0].measured_data,
+        llmOutput: result.rows[0].llm_output
+      };
+    } finally {
+      client.release();
+    }
+  }
+
   async listRuns(options: {
     limit?: number;
     offset?: number;
@@ -412,7 +603,10 @@ export class Database {
         startedAt: row.started_at,
         elapsedMs: row.elapsed_ms,
         totalScore: row.total_score,
-        error: row.error
+        error: row.error,
+        scoringProfile: row.scoring_profile || undefined,
+        apiKeyId: row.api_key_id || undefined,
+        llmUsage: row.llm_usage || undefined
       }));
     } finally {
       client.release();
@@ -437,6 +631,72 @@ export class Database {
     }
   }
 
+  /**
+   * LLM 사용량을 날짜(UTC)/API 키/모델별로 DB에서 합산
+   */
+  async aggregateLLMUsage(filter: UsageFilter): Promise<UsageBucket[]> {
+    const client = await this.pool.connect();
+    try {
+      const { where, params } = usageConditions(filter);
+      const result = await client.query(
+        `SELECT to_char(started_at, 'YYYY-MM-DD') AS date,
+                COALESCE(api_key_id, '${ANONYMOUS_API_KEY}') AS api_key_id,
+                llm_usage->>'model' AS model,
+                COUNT(*) AS runs,
+                SUM((llm_usage->>'promptTokens')::bigint) AS prompt_tokens,
+                SUM((llm_usage->>'completionTokens')::bigint) AS completion_tokens,
+                SUM((llm_usage->>'totalTokens')::bigint) AS total_tokens,
+                COALESCE(SUM((llm_usage->>'costUsd')::numeric), 0) AS cost_usd,
+                COUNT(*) FILTER (WHERE llm_usage->>'costUsd' IS NULL) AS unpriced_runs
+         FROM audit_runs
+         WHERE ${where}
+         GROUP BY 1, 2, 3`,
+        params
+      );
+
+      return result.rows.map(row => ({
+        date: row.date,
+        apiKeyId: row.api_key_id,
+        model: row.model,
+        runs: Number(row.runs),
+        promptTokens: Number(row.prompt_tokens),
+        completionTokens: Number(row.completion_tokens),
+        totalTokens: Number(row.total_tokens),
+        costUsd: Number(row.cost_usd),
+        unpricedRuns: Number(row.unpriced_runs)
+      }));
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * 최근 실행의 LLM 사용량 (결과 컬럼은 읽지 않음)
+   */
+  async listLLMUsage(filter: UsageFilter & { limit: number }): Promise<UsageEntry[]> {
+    const client = await this.pool.connect();
+    try {
+      const { where, params } = usageConditions(filter);
+      const result = await client.query(
+        `SELECT run_id, url, started_at, api_key_id, llm_usage
+         FROM audit_runs
+         WHERE ${where}
+         ORDER BY started_at DESC
+         LIMIT $${params.length + 1}`,
+        [...params, filter.limit]
+      );
+
+      return result.rows.map(row => toUsageEntry({
+        runId: row.run_id,
+        url: row.url,
+        startedAt: row.started_at,
+        apiKeyId: row.api_key_id || undefined
+      }, row.llm_usage));
+    } finally {
+      client.release();
+    }
+  }
+
   async deleteRun(runId: string): Promise<void> {
     const client = await this.pool.connect();
     try {
@@ -451,6 +711,27 @@ export class Database {
   }
 }
 
+/**
+ * 사용량 조회 조건 - from/to는 UTC 날짜 (포함)
+ */
+function usageConditions(filter: UsageFilter): { where: string; params: any[] } {
+  const conditions = ['llm_usage IS NOT NULL'];
+  const params: any[] = [];
+  if (filter.from) {
+    params.push(filter.from);
+    conditions.push(`started_at >= $${params.length}::date`);
+  }
+  if (filter.to) {
+    params.push(filter.to);
+    conditions.push(`started_at < $${params.length}::date + 1`);
+  }
+  if (filter.apiKeyId) {
+    params.push(filter.apiKeyId);
+    conditions.push(`COALESCE(api_key_id, '${ANONYMOUS_API_KEY}') = $${params.length}`);
+  }
+  return { where: conditions.join(' AND '), params };
+}
+
 // 전역 싱글톤 인스턴스 - FileDatabase 사용 (프로세스 간 공유 가능)
 const globalFileDB = new FileDatabase();
 let dbInstance: Database | InMemoryDatabase | FileDatabase | null = null;
@@ -1,7 +1,8 @@
 import { promises as fs } from 'fs';
 import { join } from 'path';
 import { tmpdir } from 'os';
-import { AuditRun, AuditResult, CheckResult } from '../types/index.js';
+import { AuditRun, AuditResult, CheckResult, ScoringInputs } from '../types/index.js';
+import { addToUsageBuckets, matchesUsageFilter, toUsageEntry, UsageBucket, UsageEntry, UsageFilter } from '../lib/llm-usage.js';
 
 // 파일 기반 데이터베이스 (프로세스 간 공유 가능)
 export class FileDatabase {
@@ -24,12 +25,87 @@ export class FileDatabase {
     return join(this.dbPath, `run-${runId}.json`);
   }
 
+  // 재채점용 입력은 크기가 커서 별도 파일로 저장 (listRuns의 run-*.json 스캔 대상 제외)
+  private getInputsPath(runId: string): string {
+    return join(this.dbPath, `inputs-${runId}.json`);
+  }
+
+  // LLM 사용량 원장 - 실행별 사용량을 한 줄씩 추가 (집계 시 run-*.json을 읽지 않음)
+  private getUsageLedgerPath(): string {
+    return join(this.dbPath, 'usage.jsonl');
+  }
+
   async ping(): Promise<void> {
     await this.ensureDir();
   }
 
   async setupTables(): Promise<void> {
     await this.ensureDir();
+    await this.ensureUsageLedger();
+  }
+
+  /**
+   * 원장이 없으면 기존 실행 파일에서 한 번 생성 (다른 프로세스가 먼저 만들었으면 그대로 사용)
+   */
+  private async ensureUsageLedger(): Promise<void> {
+    try {
+      await fs.access(this.getUsageLedgerPath());
+      return;
+    } catch {
+      // 없으면 생성
+    }
+    const runs = await this.listRuns({});
+    const lines = runs.filter(run => run.llmUsage).map(run => JSON.stringify(toUsageEntry(run, run.llmUsage!)) + '\n');
+    try {
+      await fs.writeFile(this.getUsageLedgerPath(), lines.join(''), { flag: 'wx' });
+    } catch (error) {
+      // 동시에 생성된 경우 무시
+    }
+  }
+
+  private async appendUsageLedger(record: UsageEntry | { runId: string; deleted: true }): Promise<void> {
+    try {
+      await fs.appendFile(this.getUsageLedgerPath(), JSON.stringify(record) + '\n');
+    } catch (error) {
+      console.error(`Failed to record LLM usage for ${record.runId}:`, error);
+    }
+  }
+
+  /**
+   * 원장을 실행별 최신 사용량으로 정리 - 같은 실행은 마지막 줄, 삭제 표시는 제외
+   */
+  private async readUsageLedger(): Promise<UsageEntry[]> {
+    let data = '';
+    try {
+      data = await fs.readFile(this.getUsageLedgerPath(), 'utf-8');
+    } catch (error) {
+      return [];
+    }
+    const entries = new Map<string, UsageEntry>();
+    for (const line of data.split('\n').filter(Boolean)) {
+      const record = JSON.parse(line);
+      if (record.deleted) {
+        entries.delete(record.runId);
+      } else {
+        entries.set(record.runId, record);
+      }
+    }
+    return Array.from(entries.values());
+  }
+
+  async aggregateLLMUsage(filter: UsageFilter): Promise<UsageBucket[]> {
+    const buckets = new Map<string, UsageBucket>();
+    for (const entry of await this.readUsageLedger()) {
+      if (matchesUsageFilter(entry, filter)) addToUsageBuckets(buckets, entry);
+    }
+    return Array.from(buckets.values());
+  }
+
+  async listLLMUsage(filter: UsageFilter & { limit: number }): Promise<UsageEntry[]> {
+    return (await this.readUsageLedger())
+      .filter(entry => matchesUsageFilter(entry, filter))
+      .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+      .slice(0, filter.limit);
   }
 
   async createRun(run: AuditRun): Promise<void> {
@@ -55,6 +131,9 @@ export class FileDatabase {
         expertSummary: (updates as any).expertSummary || current.expertSummary
       };
       await fs.writeFile(path, JSON.stringify(updated, null, 2));
+      if (updates.llmUsage) {
+        await this.appendUsageLedger(toUsageEntry(updated, updates.llmUsage));
+      }
     } catch (error) {
       console.error(`Failed to update run ${runId}:`, error);
     }
@@ -81,7 +160,13 @@ export class FileDatabase {
         elapsedMs: parsed.elapsedMs,
         totalScore: parsed.totalScore,
         error: parsed.error,
-        screenshots: parsed.screenshots
+        screenshots: parsed.screenshots,
+        scoringProfile: parsed.scoringProfile,
+        promptTemplate: parsed.promptTemplate,
+        weightMultipliers: parsed.weightMultipliers,
+        appliedWeights: parsed.appliedWeights,
+        apiKeyId: parsed.apiKeyId,
+        llmUsage: parsed.llmUsage
       };
       
       console.log(`[FileDB] getRun(${runId}) returning status:`, result.status);
@@ -113,6 +198,11 @@ export class FileDatabase {
         elapsedMs: parsed.elapsedMs,
         totalScore: parsed.totalScore,
         error: parsed.error,
+        scoringProfile: parsed.scoringProfile,
+        promptTemplate: parsed.promptTemplate,
+        weightMultipliers: parsed.weightMultipliers,
+        appliedWeights: parsed.appliedWeights,
+        llmUsage: parsed.llmUsage,
         checks: parsed.checks || [],
         expertSummary: parsed.expertSummary || undefined,
         purchaseFlow: parsed.flowSteps && parsed.flowSteps.length > 0 ? {
@@ -160,6 +250,23 @@ export class FileDatabase {
     }
   }
 
+  async saveScoringInputs(runId: string, inputs: ScoringInputs): Promise<void> {
+    try {
+      await fs.writeFile(this.getInputsPath(runId), JSON.stringify(inputs));
+    } catch (error) {
+      console.error(`Failed to save scoring inputs for ${runId}:`, error);
+    }
+  }
+
+  async getScoringInputs(runId: string): Promise<ScoringInputs | null> {
+    try {
+      const data = await fs.readFile(this.getInputsPath(runId), 'utf-8');
+      return JSON.parse(data);
+    } catch (error) {
+      return null;
+    }
+  }
+
   async listRuns(options: {
     limit?: number;
     offset?: number;
@@ -196,11 +303,13 @@ export class FileDatabase {
   }
 
   async deleteRun(runId: string): Promise<void> {
-    const path = this.getRunPath(runId);
-    try {
-      await fs.unlink(path);
-    } catch (error) {
-      // 파일이 없으면 무시
+    await this.appendUsageLedger({ runId, deleted: true });
+    for (const path of [this.getRunPath(runId), this.getInputsPath(runId)]) {
+      try {
+        await fs.unlink(path);
+      } catch (error) {
+        // 파일이 없으면 무시
+      }
     }
   }
 }
\ No newline at end of file
@@ -1,10 +1,15 @@
 import { Queue, Job } from 'bullmq';
 import Redis from 'ioredis';
 import { EventEmitter } from 'events';
+import { LLMProviderName } from '../lib/llm-providers.js';
 
 export interface AuditJobData {
   runId: string;
   url: string;
+  profile?: string; // 채점 프로파일 (name@version)
+  weights?: Record<string, number>; // 카테고리별 가중치 배수
+  samples?: number; // LLM 그레이딩 반복 횟수
+  llmProvider?: LLMProviderName; // 그레이딩 프로바이더
 }
 
 export interface QueueCounts {
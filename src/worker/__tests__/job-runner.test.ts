@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { readdirSync, readFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+
+// 크롤링/스토리지/리포트는 고정 입력으로 대체하고 LLM은 fixture 응답을 재생
+// fixture는 실제 녹화가 아니라 손으로 작성한 synthetic 응답 - 모델 품질이 아니라 파이프라인 회귀만 검증
+// 프롬프트가 바뀌면 LLM_FIXTURES=synthetic으로 이 파일을 실행해 fixture를 다시 생성
+const regenerate = process.env.LLM_FIXTURES === 'synthetic';
+const fixtureDir = fileURLToPath(new URL('./fixtures/llm', import.meta.url));
+const uploads = vi.hoisted(() => new Map<string, Buffer>());
+
+vi.mock('../../lib/puppeteer-screenshot.js', () => ({
+  getPuppeteerScreenshot: () => ({
+    capture: async () => ({
+      success: true,
+      screenshot: 'data:image/png;base64,iVBORw0KGgo=',
+      localPath: 'screenshots/sample-mall.png',
+      html: readFileSync(new URL('./fixtures/sample-mall.html', import.meta.url), 'utf-8'),
+      metadata: {}
+    }),
+    // 상품 상세는 이동 성공, 장바구니는 클릭 실패로 홈에 머묾 (첨부 제외)
+    capturePurchaseFlow: async () => ({
+      product: {
+        success: true,
+        screenshot: 'data:image/png;base64,UERQ',
+        metadata: { finalUrl: 'https://sample-mall.example/product/1' }
+      },
+      cart: {
+        success: true,
+        screenshot: 'data:image/png;base64,SE9NRQ==',
+        metadata: { finalUrl: 'https://sample-mall.example/' }
+      }
+    }),
+    captureMultipleElements: async (_url: string, configs: any[]) => configs.map(() => ({ success: false })),
+    cleanup: async () => {}
+  })
+}));
+
+vi.mock('../../utils/storage.js', () => ({
+  getStorage: async () => ({
+    upload: async (key: string, data: Buffer) => {
+      uploads.set(key, data);
+      return key;
+    }
+  })
+}));
+
+vi.mock('../../lib/reporter.js', () => ({
+  Reporter: class {
+    async generateReport() {
+      return {};
+    }
+  }
+}));
+
+import { runAudit } from '../job-runner.js';
+
+describe('runAudit (synthetic LLM fixture)', () => {
+  beforeAll(() => {
+    vi.stubEnv('LLM_FIXTURES', 'replay');
+    vi.stubEnv('LLM_FIXTURES_DIR', fixtureDir);
+    vi.stubEnv('LLM_SAMPLES', '1');
+    vi.stubEnv('USE_FIRECRAWL', 'false');
+  });
+
+  afterAll(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it.runIf(regenerate)('should regenerate the synthetic fixture for the current prompt', async () => {
+    for (const file of readdirSync(fixtureDir)) {
+      rmSync(join(fixtureDir, file));
+    }
+    vi.stubEnv('LLM_FIXTURES', 'synthetic');
+    vi.stubEnv('LLM_SYNTHETIC_RESPONSE', fileURLToPath(new URL('./fixtures/sample-mall-response.json', import.meta.url)));
+
+    await runAudit('https://sample-mall.example/', 'regenerate-run', async () => {});
+
+    vi.stubEnv('LLM_FIXTURES', 'replay');
+    expect(readdirSync(fixtureDir)).toHaveLength(1);
+  });
+
+  it('should produce the same scores from the replayed grading', async () => {
+    const result = await runAudit('https://sample-mall.example/', 'regression-run', async () => {});
+
+    // mock 그레이더로 대체되지 않고 fixture가 재생되었는지 확인
+    expect(result.scoringInputs?.llmOutput.metadata?.modelRequested).toBe('replay');
+    expect(result.scoringProfile).toBe('default@2');
+    expect(result.promptTemplate).toBe('grader@3');
+    expect(Object.fromEntries(result.checks.map(check => [check.id, check.score]))).toEqual({
+      speed: 5,
+      firstView: 7, // CTA 노출 규칙은 렌더링 측정값 기준 - 고정 입력에 CTA 측정이 없어 미측정 배점
+      bi: 7, // 로고 위치 규칙은 검증된 LLM 근거 bbox로 측정 (DOM 로고 후보 없음)
+      navigation: 9,
+      uspPromo: 7, // 대비 규칙은 측정값 기준 - 고정 입력에 DOM 스냅샷이 없어 미측정 배점
+      visuals: 6,
+      trust: 4,
+      mobile: 9, // 접근성 규칙은 axe-core 검사 결과 기준 - 고정 입력에 검사 결과가 없어 미측정 배점
+      purchaseFlow: 6,
+      seoAnalytics: 4 // 고정 HTML에 구조화 데이터가 없고 robots.txt/sitemap은 테스트에서 요청하지 않아 미측정 배점
+    });
+    expect(result.totalScore).toBe(64);
+    expect(result.llmUsage).toEqual({
+      provider: 'openai',
+      model: 'synthetic', // 가격표에 없는 모델 - 비용 미산정
+      promptTokens: 10230, // synthetic 토큰 수 - 두 번째 이미지(상품 상세) 포함
+      completionTokens: 2480,
+      totalTokens: 12710,
+      costUsd: null
+    });
+    expect(uploads.has('reports/regression-run/raw/inputs.json')).toBe(true);
+    expect(JSON.parse(uploads.get('reports/regression-run/raw/inputs.json')!.toString()).promptInput.images).toEqual([
+      { id: 'firstView', label: '퍼스트뷰 (전체 페이지)' },
+      { id: 'pdp', label: '상품 상세 페이지 첫 화면 (https://sample-mall.example/product/1)' }
+    ]);
+  });
+});
@@ -4,12 +4,18 @@ import { AuditJobData, getQueue } from '../utils/queue.js';
 import { getDatabase } from '../utils/database.js';
 // import { getStorage } from '../utils/storage.js';
 import { runAudit } from './job-runner.js';
+import { setupScoringProfiles } from '../lib/scoring-profiles.js';
+import { setupPromptTemplates } from '../lib/prompt-templates.js';
 
 let worker: Worker<AuditJobData> | null = null;
 
 export async function startWorker() {
   console.log('🚀 Starting audit worker...');
 
+  // 채점 프로파일/프롬프트 템플릿 로드 및 검증 - 설정 오류 시 워커 시작 실패
+  setupScoringProfiles();
+  setupPromptTemplates();
+
   const queue = await getQueue();
   await getDatabase(); // Initialize database connection
 
@@ -65,7 +71,7 @@ export async function startWorker() {
 }
 
 async function processJob(job: Job<AuditJobData> | any): Promise<any> {
-  const { runId, url } = job.data || job;
+  const { runId, url, profile, weights, samples, llmProvider } = job.data || job;
   const db = await getDatabase();
   
   console.log(`🔍 Starting audit for ${url} (${runId})`);
@@ -84,7 +90,7 @@ async function processJob(job: Job<AuditJobData> | any): Promise<any> {
     };
 
     // 감사 실행
-    const result = await runAudit(url, runId, updateProgress);
+    const result = await runAudit(url, runId, updateProgress, { profile, weights, samples, llmProvider });
 
     // 결과 저장
     await db.updateRun(runId, {
@@ -92,9 +98,19 @@ async function processJob(job: Job<AuditJobData> | any): Promise<any> {
       elapsedMs: result.elapsedMs,
       totalScore: result.totalScore,
       screenshots: result.screenshots,
-      platform: result.platform
+      platform: result.platform,
+      scoringProfile: result.scoringProfile,
+      promptTemplate: result.promptTemplate,
+      weightMultipliers: result.weightMultipliers,
+      appliedWeights: result.appliedWeights,
+      llmUsage: result.llmUsage
     });
 
+    // 재채점용 원본 입력 저장
+    if (result.scoringInputs) {
+      await db.saveScoringInputs(runId, result.scoringInputs);
+    }
+
     // 체크 결과 저장
     for (const check of result.checks) {
       await db.saveCheckResult(runId, check);
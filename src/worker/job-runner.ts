@@ -1,17 +1,40 @@
-import { AuditResult, LLMGraderInput } from '../types/index.js';
+import { AuditResult, LabeledScreenshot, LLMGraderInput } from '../types/index.js';
+import { AccessibilityMetrics, SEOMetrics, TagInventory } from '../types/domain.types.js';
 import { createFirecrawlClient, FirecrawlClient } from '../lib/firecrawl.js';
 import { createLighthouseRunner } from '../lib/lighthouse.js';
 import { createVisionLLMGrader } from '../lib/vision-llm.js';
+import { resolveSampleCount } from '../lib/llm-consensus.js';
+import { LLMProviderName } from '../lib/llm-providers.js';
+import { toLLMUsage } from '../lib/llm-usage.js';
+import { verifyEvidence } from '../lib/evidence-verifier.js';
+import { analyzeStructuredData, auditCrawlFiles, summarizeSeoAudit } from '../lib/seo-audit.js';
+import { detectTrustSignals, summarizeTrustSignals } from '../lib/trust-signals.js';
 import { createScorerV2 } from '../lib/scorer-v2.js';
+import { detectVerticalProfile, getScoringProfile } from '../lib/scoring-profiles.js';
 import { Reporter } from '../lib/reporter.js';
 import { getStorage } from '../utils/storage.js';
 import * as cvUtils from '../lib/cv-utils.js';
-import { getPuppeteerScreenshot } from '../lib/puppeteer-screenshot.js';
+import { getPuppeteerScreenshot, ScreenshotResult } from '../lib/puppeteer-screenshot.js';
+
+const MOBILE_VIEWPORT = {
+  width: 375,
+  height: 812,
+  isMobile: true,
+  deviceScaleFactor: 2
+};
+
+// 전체 페이지 스크린샷 구간별 라벨
+const SLICE_LABELS: Record<string, string> = {
+  firstView: '퍼스트뷰',
+  midPage: '페이지 중간',
+  footer: '페이지 하단 (푸터)'
+};
 
 export async function runAudit(
   url: string,
   runId: string,
-  updateProgress: (progress: number, message?: string) => Promise<void>
+  updateProgress: (progress: number, message?: string) => Promise<void>,
+  options: { profile?: string; weights?: Record<string, number>; samples?: number; llmProvider?: LLMProviderName } = {}
 ): Promise<AuditResult> {
   const startTime = Date.now();
   const storage = await getStorage();
@@ -33,17 +56,34 @@ export async function runAudit(
     // Puppeteer screenshot capture with cleanup
     const puppeteer = getPuppeteerScreenshot('./screenshots');
     let screenshotResult;
+    let flowCaptures: { product?: ScreenshotResult; cart?: ScreenshotResult } = {};
     try {
       screenshotResult = await puppeteer.capture(url, {
         fullPage: true,
         waitFor: 3000,
-        viewport: {
-          width: 375,
-          height: 812,
-          isMobile: true,
-          deviceScaleFactor: 2
-        }
+        viewport: MOBILE_VIEWPORT,
+        collectElements: true,
+        measureMobile: true,
+        detectOverlays: true,
+        dismissOverlays: process.env.DISMISS_OVERLAYS === 'true',
+        detectLogo: true,
+        detectCtas: true,
+        auditAccessibility: process.env.ACCESSIBILITY_AUDIT !== 'false',
+        collectTags: true
       });
+
+      // 상품 상세/장바구니 첫 화면 - LLM이 구매 플로우와 신뢰 요소를 화면으로 판단하도록 첨부
+      if (process.env.FLOW_SCREENSHOTS !== 'false') {
+        await updateProgress(20, 'Capturing product and cart pages...');
+        try {
+          flowCaptures = await puppeteer.capturePurchaseFlow(url, platform, {
+            steps: ['product', 'cart'],
+            config: { fullPage: false, waitFor: 2000, viewport: MOBILE_VIEWPORT }
+          });
+        } catch (error) {
+          console.warn('Purchase flow capture failed:', error);
+        }
+      }
     } finally {
       // Always cleanup browser instance
       await puppeteer.cleanup();
@@ -54,7 +94,14 @@ export async function runAudit(
         screenshot: screenshotResult.screenshot,
         localPath: screenshotResult.localPath,
         metadata: screenshotResult.metadata,
-        html: screenshotResult.html // Use Puppeteer's rendered HTML
+        html: screenshotResult.html, // Use Puppeteer's rendered HTML
+        elements: screenshotResult.elements, // LLM 근거 검증용 DOM 스냅샷
+        mobileMetrics: screenshotResult.mobileMetrics, // 렌더링 기준 글자 크기/탭 타겟/가로 스크롤
+        overlays: screenshotResult.overlays, // 첫 화면 팝업/고정 레이어
+        logo: screenshotResult.logo, // DOM 휴리스틱으로 찾은 로고
+        ctas: screenshotResult.ctas, // 구매/장바구니/쿠폰 버튼 위치
+        accessibility: screenshotResult.accessibility, // axe-core 접근성 위반
+        tagInventory: screenshotResult.tagInventory // 네트워크 요청으로 분류한 분석/마케팅 태그
       };
       console.log('Screenshot captured successfully:', screenshotResult.localPath);
       console.log('HTML captured length:', screenshotResult.html?.length || 0);
@@ -119,12 +166,31 @@ export async function runAudit(
     const cvAnalysisPromise = (async () => {
       if (firecrawlData?.html) {
         const altRatio = cvUtils.calculateAltRatio(firecrawlData.html);
+        // 팝업 수는 렌더링된 첫 화면 기준 - 캡처 실패 시에만 HTML 추정으로 대체
+        const overlays: cvUtils.OverlayReport | undefined = screenshotData?.overlays;
         const popups = cvUtils.detectPopups(firecrawlData.html);
         const typography = cvUtils.analyzeTypographyHierarchy(firecrawlData.html);
         const hasViewport = cvUtils.hasViewportMeta(firecrawlData.html);
-        const hasOverflow = cvUtils.detectHorizontalOverflow(firecrawlData.html);
-        const minFontSize = cvUtils.analyzeMinFontSize(firecrawlData.html);
-        const minTouchTarget = cvUtils.analyzeMinTouchTarget(firecrawlData.html);
+        // 모바일 측정값은 렌더링된 페이지 기준 - 캡처 실패 시에만 인라인 style 추정으로 대체
+        const mobileMetrics: cvUtils.MobileMetrics | undefined = screenshotData?.mobileMetrics;
+        const hasOverflow = mobileMetrics?.hasOverflow ?? cvUtils.detectHorizontalOverflow(firecrawlData.html);
+        const minFontSize = mobileMetrics?.minFontSize ?? cvUtils.analyzeMinFontSize(firecrawlData.html);
+        const minTouchTarget = mobileMetrics?.minTouchTarget ?? cvUtils.analyzeMinTouchTarget(firecrawlData.html);
+        // 구매/장바구니/쿠폰 CTA - 렌더링된 첫 화면 기준 (캡처 실패 시 미측정)
+        const ctas: cvUtils.CtaReport | undefined = screenshotData?.ctas;
+        // CTA/프로모션 문구 대비 - computed 글자색과 스크린샷 배경 픽셀 비교
+        let textContrast: cvUtils.TextContrastResult[] = [];
+        if (screenshotData?.elements?.length && screenshotData.screenshot) {
+          try {
+            textContrast = await cvUtils.measureTextContrast(
+              screenshotData.screenshot,
+              cvUtils.selectContrastTargets(screenshotData.elements),
+              MOBILE_VIEWPORT.deviceScaleFactor
+            );
+          } catch (error) {
+            console.warn('Text contrast measurement failed:', error);
+          }
+        }
         const seoData = cvUtils.analyzeSeoData(firecrawlData.html);
         const navigation = cvUtils.analyzeNavigation(firecrawlData.html);
 
@@ -136,49 +202,75 @@ export async function runAudit(
           hasOverflow,
           minFontSize,
           minTouchTarget,
+          mobileMetrics,
           seoData,
           navigation,
-          popupCount: popups.count
+          overlays,
+          textContrast,
+          ctas,
+          popupCount: overlays?.popupCount ?? popups.count,
+          overlayCoverage: overlays?.coverage
         };
       }
       return null;
     })();
 
+    // 구조화 데이터 검증과 robots.txt/sitemap 확인 (병렬)
+    const seoAuditPromise = (async (): Promise<SEOMetrics | null> => {
+      const html = screenshotData?.html || firecrawlData?.html;
+      if (!html) return null;
+      // 외부 요청은 테스트 환경에서 생략 (Lighthouse와 동일)
+      const crawlFiles = process.env.NODE_ENV !== 'test' ? await auditCrawlFiles(url) : {};
+      return { structuredData: analyzeStructuredData(html), ...crawlFiles };
+    })();
+
     // 병렬 작업 대기
-    await Promise.all([lighthousePromise, cvAnalysisPromise]);
+    await Promise.all([lighthousePromise, cvAnalysisPromise, seoAuditPromise]);
     const cvAnalysis = await cvAnalysisPromise;
+    const seoAudit = await seoAuditPromise;
 
     // 4. LLM 그레이딩 (70%)
     await updateProgress(55, 'Starting AI analysis...');
     
-    const grader = createVisionLLMGrader();
+    const grader = createVisionLLMGrader(options.llmProvider);
     
     // Use Puppeteer HTML if available, otherwise fall back to Firecrawl
     const htmlContent = screenshotData?.html || firecrawlData?.html || '';
     
+    // 채점 프로파일 결정 - 요청 지정 > 업종 자동 감지 > 기본 프로파일
+    const detectedProfile = !options.profile && process.env.VERTICAL_DETECTION !== 'false'
+      ? detectVerticalProfile(htmlContent)
+      : undefined;
+    const profile = detectedProfile || getScoringProfile(options.profile);
+    if (detectedProfile) {
+      console.log(`Vertical detected: ${detectedProfile.config.profile.vertical} (${detectedProfile.key})`);
+    }
+    
+    const firstView = screenshotData?.screenshot || firecrawlData?.screenshot || '';
+    const actionScreenshots: string[] = firecrawlData?.actions?.screenshots || [];
     const graderInput: LLMGraderInput = {
       url,
       platform: FirecrawlClient.detectPlatform(url, htmlContent, firecrawlData?.links),
+      vertical: profile.config.profile.vertical,
+      keywords: profile.config.keywords,
       html: htmlContent,
       screenshots: {
-        firstView: screenshotData?.screenshot || firecrawlData?.screenshot || '',
-        actions: firecrawlData?.actions?.screenshots || []
+        firstView,
+        actions: actionScreenshots,
+        images: await buildGraderImages(url, firstView, flowCaptures, actionScreenshots)
       }
     };
 
     // LLM 그레이딩 또는 Mock
-    console.log('LLM_API_KEY exists:', !!process.env.LLM_API_KEY);
-    console.log('LLM_API_KEY first 10 chars:', process.env.LLM_API_KEY?.substring(0, 10));
-    console.log('LLM_MODEL:', process.env.LLM_MODEL);
-    
-    if (process.env.LLM_API_KEY) {
+    if (grader.isConfigured()) {
       try {
-        console.log('Attempting to call OpenAI API...');
-        console.log('Model being used:', process.env.LLM_MODEL || 'gpt-5');
+        console.log(`Attempting to call LLM API (${grader.getProviderName()})...`);
         const startTime = Date.now();
-        llmOutput = await grader.grade(graderInput);
+        // 요청 지정 > LLM_SAMPLES > 1회
+        const samples = resolveSampleCount(options.samples ?? process.env.LLM_SAMPLES);
+        llmOutput = await grader.gradeWithConsensus(graderInput, samples);
         const endTime = Date.now();
-        console.log('OpenAI API call successful');
+        console.log('LLM API call successful');
         console.log('Processing time:', endTime - startTime, 'ms');
         if (llmOutput.metadata) {
           console.log('Model metadata:', JSON.stringify(llmOutput.metadata));
@@ -190,11 +282,25 @@ export async function runAudit(
         llmOutput = await grader.gradeMock(graderInput);
       }
     } else {
-      console.log('No LLM_API_KEY, using mock');
+      console.log('No LLM provider configured, using mock');
       llmOutput = await grader.gradeMock(graderInput);
       await updateProgress(70, 'Mock analysis completed');
     }
 
+    // 근거 검증 - bbox/셀렉터/텍스트를 렌더링된 DOM과 대조해 위치를 보정하고 미검증 근거에 기댄 점수는 감점
+    if (screenshotData?.elements?.length && process.env.EVIDENCE_VERIFICATION !== 'false') {
+      llmOutput = verifyEvidence(llmOutput, screenshotData.elements, htmlContent);
+      const unverified = Object.entries(llmOutput.scores)
+        .filter(([, check]: [string, any]) => check?.evidenceVerification?.unverified > 0)
+        .map(([id]) => id);
+      if (unverified.length > 0) {
+        console.log('Unverified evidence in:', unverified.join(', '));
+      }
+    }
+
+    // 검증된 LLM 출력 보존 (재채점 입력) - 아래 evidence 스크린샷 병합 단계에서 객체가 변경됨
+    const rawLlmOutput = structuredClone(llmOutput);
+
     // 4-1. Evidence별 개별 스크린샷 캡처 (75%)
     await updateProgress(72, 'Capturing evidence screenshots...');
     const evidenceScreenshots: Record<string, any> = {};
@@ -265,12 +371,7 @@ export async function runAudit(
             url,
             captureConfigs,
             {
-              viewport: {
-                width: 375,
-                height: 812,
-                isMobile: true,
-                deviceScaleFactor: 2
-              },
+              viewport: MOBILE_VIEWPORT,
               waitFor: 2000
             }
           );
@@ -324,6 +425,55 @@ export async function runAudit(
       }
     }
 
+    // 로고 위치 - DOM 휴리스틱으로 찾은 로고, 못 찾으면 검증을 통과한 LLM 근거 bbox
+    let logo: cvUtils.LogoDetection | null = screenshotData?.logo ?? null;
+    const logoEvidence = llmOutput?.scores?.bi?.evidence?.logo;
+    if (!logo && Array.isArray(logoEvidence?.bbox) && logoEvidence.verification !== 'unverified') {
+      const [x, y, width, height] = logoEvidence.bbox;
+      const bbox = { x, y, width, height };
+      logo = { source: 'llm', matchedBy: [], bbox, ...cvUtils.checkLogoPosition(bbox, MOBILE_VIEWPORT.height) };
+    }
+    if (logo && screenshotData?.screenshot) {
+      try {
+        logo.screenshot = await cvUtils.cropEvidenceImage(screenshotData.screenshot, logo.bbox, MOBILE_VIEWPORT.deviceScaleFactor);
+      } catch (error) {
+        console.warn('Logo evidence crop failed:', error);
+      }
+    }
+
+    // 접근성 위반 요소 근거 이미지 - 영향도 높은 위반부터 최대 5개
+    const accessibility: AccessibilityMetrics | undefined = screenshotData?.accessibility;
+    if (accessibility && screenshotData?.screenshot) {
+      for (const violation of accessibility.violations.filter(v => v.bbox).slice(0, 5)) {
+        const [x, y, width, height] = violation.bbox!;
+        try {
+          violation.screenshot = await cvUtils.cropEvidenceImage(screenshotData.screenshot, { x, y, width, height }, MOBILE_VIEWPORT.deviceScaleFactor);
+        } catch (error) {
+          console.warn(`Accessibility evidence crop failed (${violation.id}):`, error);
+        }
+      }
+    }
+
+    const tagInventory: TagInventory | undefined = screenshotData?.tagInventory;
+
+    // 결제사, 사업자 정보, 에스크로, 교환/반품 링크, 리뷰 위젯 - HTML이 없으면 미측정
+    const trustSignals = htmlContent ? detectTrustSignals(htmlContent) : undefined;
+
+    // 브랜드 색상 재사용 - 로고 영역(찾지 못하면 상단 헤더 띠)의 대표 색이 첫 화면에 얼마나 쓰였는지
+    // 칸 판정 기준은 규칙의 params.cellShare - 규칙에 없으면 미측정
+    let brandColor: (cvUtils.BrandColorReuse & { logoSource: cvUtils.LogoDetection['source'] | 'header' }) | null = null;
+    const reuseCellShare = profile.config.bi.rules.primaryReuseRatio?.params?.cellShare;
+    if (screenshotData?.screenshot && reuseCellShare !== undefined) {
+      const logoSource = logo?.source ?? 'header';
+      const logoRegion = logo?.bbox ?? { x: 0, y: 0, width: MOBILE_VIEWPORT.width, height: Math.round(MOBILE_VIEWPORT.height * 0.08) };
+      try {
+        const reuse = await cvUtils.measureBrandColorReuse(screenshotData.screenshot, logoRegion, MOBILE_VIEWPORT, reuseCellShare, MOBILE_VIEWPORT.deviceScaleFactor);
+        brandColor = reuse ? { ...reuse, logoSource } : null;
+      } catch (error) {
+        console.warn('Brand color measurement failed:', error);
+      }
+    }
+
     // 5. 점수 계산 (80%) - ScorerV2 사용
     await updateProgress(75, 'Calculating scores...');
     
@@ -336,25 +486,70 @@ export async function runAudit(
         minTouchTarget: cvAnalysis.minTouchTarget,
         hasOverflow: cvAnalysis.hasOverflow,
         altRatio: cvAnalysis.altRatio.ratio,
-        popupCount: cvAnalysis.popupCount
+        popupCount: cvAnalysis.popupCount,
+        overlayCoverage: cvAnalysis.overlayCoverage,
+        textContrast: cvUtils.summarizeTextContrast(cvAnalysis.textContrast).median,
+        primaryReuseRatio: brandColor?.reuseRatio,
+        logoBottomPct: logo?.bottomPct,
+        ctaAboveFoldSize: cvAnalysis.ctas?.aboveFoldSize
       } : null,
       html: cvAnalysis ? {
         ...cvAnalysis.seoData,
         ...cvAnalysis.navigation
-      } : null
+      } : null,
+      seo: seoAudit ? summarizeSeoAudit(seoAudit) : null,
+      accessibility: accessibility ? {
+        score: accessibility.score,
+        seriousViolations: accessibility.seriousViolations
+      } : null,
+      tags: tagInventory ? {
+        firingCount: tagInventory.firingCount,
+        duplicateCount: tagInventory.duplicateCount
+      } : null,
+      trust: trustSignals ? summarizeTrustSignals(trustSignals) : null
     };
 
     // ScorerV2로 점수 계산
-    const scorerV2 = createScorerV2();
-    const scoreResult = scorerV2.calculateScores(llmOutput, measuredData);
+    const scorerV2 = createScorerV2(profile.key);
+    const scoreResult = scorerV2.calculateScores(llmOutput, measuredData, options.weights);
     
     console.log('Score calculation complete:', {
+      profile: scoreResult.profile,
       totalScore: scoreResult.totalScore,
       sources: scoreResult.scoreSources
     });
     
     await updateProgress(80, 'Scores calculated');
 
+    // 원본 측정 입력 저장 - 점수 이의 검토, 재채점, 회귀 테스트 fixture용
+    try {
+      const rawInputs = {
+        runId,
+        url,
+        platform,
+        capturedAt: new Date().toISOString(),
+        scoringProfile: scoreResult.profile,
+        measuredData,
+        cvAnalysis,
+        llmOutput: rawLlmOutput,
+        // 프롬프트 미리보기용 그레이더 입력 (HTML은 page.html, 퍼스트뷰 이미지는 제외)
+        promptInput: {
+          url: graderInput.url,
+          platform: graderInput.platform,
+          vertical: graderInput.vertical,
+          keywords: graderInput.keywords,
+          actions: graderInput.screenshots.actions,
+          images: graderInput.screenshots.images?.map(({ id, label }) => ({ id, label }))
+        }
+      };
+      await storage.upload(`reports/${runId}/raw/inputs.json`, Buffer.from(JSON.stringify(rawInputs, null, 2)), 'application/json');
+      if (htmlContent) {
+        await storage.upload(`reports/${runId}/raw/page.html`, Buffer.from(htmlContent), 'text/html');
+      }
+    } catch (error) {
+      console.error('Failed to store raw inputs:', error);
+    }
+
     // 6. 리포트 생성 (90%)
     await updateProgress(85, 'Generating report...');
     
@@ -368,9 +563,60 @@ export async function runAudit(
       startedAt: new Date(startTime),
       elapsedMs: Date.now() - startTime,
       totalScore: scoreResult.totalScore,
+      scoringProfile: scoreResult.profile,
+      promptTemplate: rawLlmOutput.metadata?.promptTemplate,
+      weightMultipliers: options.weights,
+      appliedWeights: scoreResult.appliedWeights,
+      llmUsage: toLLMUsage(rawLlmOutput.metadata),
       platform,
       checks: Object.entries(scoreResult.categoryScores).map(([id, score]) => {
         const evidence = llmOutput.scores[id]?.evidence || {};
+
+        // 렌더링된 페이지에서 찾은 구매 CTA - 위치, 크기, 첫 화면 노출 여부
+        if (id === 'firstView' && cvAnalysis?.ctas && cvAnalysis.ctas.ctas.length > 0) {
+          evidence.detectedCtas = cvAnalysis.ctas.ctas;
+        }
+
+        // axe-core 접근성 위반 - 규칙별 셀렉터, 요소 수, 잘라낸 요소 이미지
+        if (id === 'mobile' && accessibility) {
+          evidence.accessibility = accessibility;
+        }
+
+        // 렌더링 시 감지한 오버레이 - 종류, 가린 비율, 팝업이 떠 있는 첫 화면
+        if (id === 'visuals' && cvAnalysis?.overlays && cvAnalysis.overlays.overlays.length > 0) {
+          evidence.overlays = cvAnalysis.overlays;
+        }
+
+        if (id === 'bi' && brandColor) {
+          evidence.brandColor = brandColor;
+        }
+
+        // 측정한 로고 위치와 잘라낸 로고 이미지
+        if (id === 'bi' && logo) {
+          evidence.logoDetection = logo;
+        }
+
+        // 구조화 데이터 항목별 검증 결과, robots.txt, sitemap
+        if (id === 'seoAnalytics' && seoAudit) {
+          evidence.structuredData = seoAudit.structuredData;
+          evidence.robots = seoAudit.robots;
+          evidence.sitemap = seoAudit.sitemap;
+        }
+
+        // 찾은 신뢰 요소와 위치 (푸터, alt, 스크립트 주소 등)
+        if (id === 'trust' && trustSignals) {
+          evidence.trustSignals = trustSignals;
+        }
+
+        // 태그별 로드 시 전송 여부, 중복, 빠진 이커머스 이벤트
+        if (id === 'seoAnalytics' && tagInventory) {
+          evidence.tagInventory = tagInventory;
+        }
+
+        // 측정한 CTA/프로모션 문구 대비 - 요소별 WCAG AA 통과 여부
+        if (id === 'uspPromo' && cvAnalysis?.textContrast.length) {
+          evidence.textContrast = cvAnalysis.textContrast;
+        }
         
         // Evidence 스크린샷 병합
         if (evidenceScreenshots[id]) {
@@ -422,7 +668,15 @@ export async function runAudit(
           id,
           score,
           source: scoreResult.scoreSources[id], // 점수 출처 (rule/ai/hybrid)
-          metrics: id === 'speed' ? lighthouseData : llmOutput.scores[id]?.metrics,
+          ...scoreResult.confidence[id], // 신뢰도와 구성 요소
+          scoreSpread: rawLlmOutput.scores[id]?.scoreSpread, // 다중 샘플 LLM 점수 분포
+          evidenceVerification: rawLlmOutput.scores[id]?.evidenceVerification, // 근거 검증 결과
+          ruleOutcomes: scoreResult.ruleOutcomes[id], // 규칙별 배점 내역
+          metrics: id === 'speed'
+            ? lighthouseData
+            : id === 'mobile' && cvAnalysis?.mobileMetrics
+              ? { ...llmOutput.scores[id]?.metrics, ...cvAnalysis.mobileMetrics }
+              : llmOutput.scores[id]?.metrics,
           evidence,
           insights: llmOutput.scores[id]?.insights || []
         };
@@ -435,7 +689,8 @@ export async function runAudit(
       screenshots: {
         main: screenshotData?.screenshot || firecrawlData?.screenshot || undefined,
         actions: firecrawlData?.actions?.screenshots || []
-      }
+      },
+      scoringInputs: { measuredData, llmOutput: rawLlmOutput }
     };
 
     // 리포트 생성
@@ -519,4 +774,55 @@ function extractLinks(html: string, baseUrl: string): string[] {
   }
 
   return [...new Set(links)];
-}
\ No newline at end of file
+}
+
+/**
+ * LLM 첨부 이미지 구성 - 전체 페이지 스크린샷을 퍼스트뷰/중간/하단으로 나누고,
+ * 실제로 다른 페이지로 이동한 구매 플로우 캡처와 액션 스크린샷을 라벨과 함께 추가
+ */
+async function buildGraderImages(
+  url: string,
+  fullPage: string,
+  flow: { product?: ScreenshotResult; cart?: ScreenshotResult },
+  actions: string[]
+): Promise<LabeledScreenshot[]> {
+  const images: LabeledScreenshot[] = [];
+
+  if (fullPage) {
+    try {
+      const slices = await cvUtils.sliceFullPageScreenshot(fullPage, MOBILE_VIEWPORT.height, MOBILE_VIEWPORT.deviceScaleFactor);
+      for (const slice of slices) {
+        images.push({
+          id: slice.id,
+          label: `${SLICE_LABELS[slice.id]} (페이지 y ${slice.top}-${slice.top + slice.height}px)`,
+          image: slice.image
+        });
+      }
+    } catch (error) {
+      console.warn('Screenshot slicing failed, attaching the full screenshot:', error);
+      images.push({ id: 'firstView', label: '퍼스트뷰 (전체 페이지)', image: fullPage });
+    }
+  }
+
+  const flowSteps: Array<[string, ScreenshotResult | undefined, string]> = [
+    ['pdp', flow.product, '상품 상세 페이지 첫 화면'],
+    ['cart', flow.cart, '장바구니 페이지 첫 화면']
+  ];
+  for (const [id, capture, label] of flowSteps) {
+    const finalUrl = capture?.metadata?.finalUrl;
+    // 클릭이 실패해 홈에 머문 캡처는 다른 페이지로 라벨링하지 않음
+    if (capture?.success && capture.screenshot && finalUrl && stripUrl(finalUrl) !== stripUrl(url)) {
+      images.push({ id, label: `${label} (${finalUrl})`, image: capture.screenshot });
+    }
+  }
+
+  actions.forEach((action, index) => {
+    images.push({ id: `action${index + 1}`, label: `액션 후 캡처 ${index + 1}`, image: action });
+  });
+
+  return images;
+}
+
+function stripUrl(url: string): string {
+  return url.replace(/[?#].*$/, '').replace(/\/$/, '');
+}